@@ -127,6 +127,7 @@ export function StreamSchemaDemo() {
 
     parserRef.current = isLLMMode
       ? createLLMParser(scenario.schema, {
+          immutable: true,
           events: {
             onValidationError: (error) => {
               collectedErrors.push(`${error.path.join(".")}: ${error.message}`)
@@ -134,6 +135,7 @@ export function StreamSchemaDemo() {
           },
         })
       : createStreamParser(scenario.schema, {
+          immutable: true,
           events: {
             onValidationError: (error) => {
               collectedErrors.push(`${error.path.join(".")}: ${error.message}`)
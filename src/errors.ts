@@ -0,0 +1,52 @@
+import { SourceLocation } from './types.js';
+
+/**
+ * Syntax error raised by the streaming parser, carrying the absolute location
+ * of the offending input and a caret-annotated excerpt of it
+ */
+export class ParseError extends Error {
+  /** The error description without location details */
+  readonly reason: string;
+  /** Absolute character offset from the start of the input */
+  readonly offset: number;
+  /** 1-based line number */
+  readonly line: number;
+  /** 1-based column number */
+  readonly column: number;
+  /** The surrounding input with a caret under the error position */
+  readonly excerpt: string;
+
+  constructor(reason: string, location: SourceLocation, excerpt: string) {
+    super(`${reason} at line ${location.line}, column ${location.column}\n${excerpt}`);
+    this.name = 'ParseError';
+    this.reason = reason;
+    this.offset = location.offset;
+    this.line = location.line;
+    this.column = location.column;
+    this.excerpt = excerpt;
+  }
+}
+
+/**
+ * Raised by end() when the input stopped before the top-level value was
+ * complete. The path is a JSON Pointer string with pathFormat: 'pointer'.
+ */
+export class TruncationError<P = string[]> extends ParseError {
+  /** Containers still open at the end of input, outermost first */
+  readonly openContainers: Array<'object' | 'array'>;
+  /** Path of the innermost unfinished value */
+  readonly path: P;
+
+  constructor(
+    reason: string,
+    location: SourceLocation,
+    excerpt: string,
+    openContainers: Array<'object' | 'array'>,
+    path: P
+  ) {
+    super(reason, location, excerpt);
+    this.name = 'TruncationError';
+    this.openContainers = openContainers;
+    this.path = path;
+  }
+}
@@ -0,0 +1,62 @@
+import { SkippedText } from './types.js';
+
+/**
+ * Extraction pre-stage for LLM output: separates the JSON value from the
+ * prose and markdown code fences around it. Leading text is dropped up to
+ * the first { or [; the tokenizer calls end() once the value is closed or a
+ * closing fence appears, after which all input is collected as trailing text.
+ */
+export class JSONExtractor {
+  private phase: 'before' | 'json' | 'after';
+  private before: string;
+  private after: string;
+
+  constructor() {
+    this.phase = 'before';
+    this.before = '';
+    this.after = '';
+  }
+
+  reset(): void {
+    this.phase = 'before';
+    this.before = '';
+    this.after = '';
+  }
+
+  /**
+   * Split decoded input into the leading text to skip and the text to tokenize
+   */
+  feed(text: string): { skipped: string; json: string } {
+    if (this.phase === 'json') {
+      return { skipped: '', json: text };
+    }
+
+    if (this.phase === 'after') {
+      this.after += text;
+      return { skipped: '', json: '' };
+    }
+
+    const start = text.search(/[{[]/);
+    if (start === -1) {
+      this.before += text;
+      return { skipped: text, json: '' };
+    }
+
+    this.phase = 'json';
+    const skipped = text.slice(0, start);
+    this.before += skipped;
+    return { skipped, json: text.slice(start) };
+  }
+
+  /**
+   * Mark the JSON value as finished; rest is the input that followed it
+   */
+  end(rest: string): void {
+    this.phase = 'after';
+    this.after += rest;
+  }
+
+  getSkippedText(): SkippedText {
+    return { before: this.before, after: this.after };
+  }
+}
@@ -7,19 +7,43 @@
 export { StreamingJSONParser, createStreamParser, createLLMParser } from './parser.js';
 export { StreamingTokenizer } from './tokenizer.js';
 export { SchemaValidator } from './validator.js';
+export { ParseError, TruncationError } from './errors.js';
+export { applyPatch } from './patch.js';
+export { toPointer, parsePointer } from './pointer.js';
 
 // Export types
 export type {
   JSONSchema,
   JSONSchemaType,
+  JSONDialect,
+  NumberMode,
   InferSchemaType,
   Token,
+  TokenRecovery,
+  Recovery,
+  LocatedRecovery,
+  RecoveryKind,
+  SourceLocation,
+  SkippedText,
+  StreamChunk,
   StackFrame,
   ValidationError,
+  RecordError,
   ParseResult,
   ParserEvents,
   ParserOptions,
   StreamParser,
+  Repair,
+  RepairKind,
+  FinalizeOptions,
+  FinalizeResult,
+  JSONPatchOperation,
+  SubscriptionHandler,
+  SubscriptionOptions,
+  ArrayItemOptions,
+  ArraySummary,
+  PathFormat,
+  FormattedPath,
 } from './types.js';
 
 // Export enums for runtime use (also serves as type export)
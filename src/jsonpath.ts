@@ -0,0 +1,144 @@
+/**
+ * One step of a compiled JSONPath selector. A descendant step (`..`) may
+ * skip any number of levels before its selector matches.
+ */
+export interface JSONPathSegment {
+  descendant: boolean;
+  selector: { type: 'name'; name: string } | { type: 'index'; index: number } | { type: 'wildcard' };
+}
+
+/** Whether each element of a path is an object key or an array index */
+export type PathElementKind = 'key' | 'index';
+
+const MEMBER_NAME = /[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*/y;
+const INDEX = /\d+/y;
+
+/**
+ * Compile the JSONPath subset that can be matched while streaming: `$`,
+ * `.name`, `['name']`, `[0]`, `.*`, `[*]` and the descendant forms `..name`,
+ * `..*` and `..[...]`. Filters, slices and negative indexes need values that
+ * have not arrived yet, so they are rejected.
+ */
+export function compileJSONPath(selector: string): JSONPathSegment[] {
+  const fail = (position: number, reason: string): never => {
+    throw new Error(`Invalid JSONPath selector ${selector} at position ${position}: ${reason}`);
+  };
+
+  if (!selector.startsWith('$')) {
+    fail(0, 'expected $');
+  }
+
+  const segments: JSONPathSegment[] = [];
+  let i = 1;
+  while (i < selector.length) {
+    let descendant = false;
+    if (selector.startsWith('..', i)) {
+      descendant = true;
+      i += 2;
+    } else if (selector[i] === '.') {
+      i++;
+    } else if (selector[i] !== '[') {
+      fail(i, `unexpected ${selector[i] ?? ''}`);
+    }
+
+    if (selector[i] === '[') {
+      const [segmentSelector, end] = parseBracket(selector, i + 1, fail);
+      segments.push({ descendant, selector: segmentSelector });
+      i = end;
+    } else if (selector[i] === '*') {
+      segments.push({ descendant, selector: { type: 'wildcard' } });
+      i++;
+    } else {
+      MEMBER_NAME.lastIndex = i;
+      const name = MEMBER_NAME.exec(selector)?.[0];
+      if (!name) {
+        fail(i, 'expected a member name, * or [');
+      } else {
+        segments.push({ descendant, selector: { type: 'name', name } });
+        i += name.length;
+      }
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Parse the inside of a bracket starting at index, returning the selector
+ * and the index after the closing ]
+ */
+function parseBracket(
+  selector: string,
+  index: number,
+  fail: (position: number, reason: string) => never
+): [JSONPathSegment['selector'], number] {
+  const char = selector[index];
+  let result: JSONPathSegment['selector'];
+  let i = index;
+
+  if (char === '*') {
+    result = { type: 'wildcard' };
+    i++;
+  } else if (char === "'" || char === '"') {
+    let name = '';
+    i++;
+    while (selector[i] !== char) {
+      if (i >= selector.length) {
+        fail(index, 'unterminated string');
+      }
+      if (selector[i] === '\\') {
+        i++;
+      }
+      name += selector[i];
+      i++;
+    }
+    result = { type: 'name', name };
+    i++;
+  } else if (char === '-') {
+    return fail(index, 'negative indexes are not supported while streaming');
+  } else {
+    INDEX.lastIndex = i;
+    const digits = INDEX.exec(selector)?.[0];
+    if (!digits) {
+      return fail(index, 'expected *, an index or a quoted name');
+    }
+    result = { type: 'index', index: Number(digits) };
+    i += digits.length;
+  }
+
+  if (selector[i] !== ']') {
+    fail(i, 'expected ]');
+  }
+  return [result, i + 1];
+}
+
+/**
+ * Whether a compiled selector matches a path, given which path elements are
+ * array indexes
+ */
+export function matchesJSONPath(segments: JSONPathSegment[], path: string[], kinds: PathElementKind[], from = 0, at = 0): boolean {
+  const segment = segments[from];
+  if (!segment) {
+    return at === path.length;
+  }
+  if (at >= path.length) {
+    return false;
+  }
+
+  if (selects(segment, path[at] ?? '', kinds[at]) && matchesJSONPath(segments, path, kinds, from + 1, at + 1)) {
+    return true;
+  }
+  return segment.descendant && matchesJSONPath(segments, path, kinds, from, at + 1);
+}
+
+function selects(segment: JSONPathSegment, element: string, kind: PathElementKind | undefined): boolean {
+  const { selector } = segment;
+  switch (selector.type) {
+    case 'wildcard':
+      return true;
+    case 'name':
+      return kind === 'key' && selector.name === element;
+    case 'index':
+      return kind === 'index' && String(selector.index) === element;
+  }
+}
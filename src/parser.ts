@@ -1,5 +1,6 @@
 import { StreamingTokenizer } from './tokenizer.js';
 import { SchemaValidator } from './validator.js';
+import { ParseError, TruncationError } from './errors.js';
 import {
   JSONSchema,
   TokenType,
@@ -8,31 +9,87 @@ import {
   StackFrame,
   ParseResult,
   ParserOptions,
+  StreamChunk,
   StreamParser,
   ValidationError,
   InferSchemaType,
+  Recovery,
+  LocatedRecovery,
+  RecoveryKind,
+  Repair,
+  RepairKind,
+  FinalizeOptions,
+  FinalizeResult,
+  RecordError,
+  SourceLocation,
+  JSONPatchOperation,
+  SubscriptionHandler,
+  SubscriptionOptions,
+  ParserEvents,
+  PathFormat,
+  FormattedPath,
 } from './types.js';
+import { assignIn, snapshot } from './patch.js';
+import { pointerEvents, toPointer } from './pointer.js';
+import { JSONPathSegment, PathElementKind, compileJSONPath, matchesJSONPath } from './jsonpath.js';
+
+interface Subscription {
+  segments: JSONPathSegment[];
+  handler: SubscriptionHandler;
+  streaming: boolean;
+}
 
-export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements StreamParser<InferSchemaType<T>> {
+export class StreamingJSONParser<T extends JSONSchema = JSONSchema, F extends PathFormat = 'segments'>
+  implements StreamParser<InferSchemaType<T>, FormattedPath<F>> {
   private tokenizer: StreamingTokenizer;
   private validator: SchemaValidator | null;
-  private options: ParserOptions<T>;
+  private options: ParserOptions<T, F>;
+  /** options.events, called with segment paths whatever the pathFormat */
+  private events: ParserEvents<InferSchemaType<T>> | undefined;
 
   private state: ParserState;
   private stack: StackFrame[];
   private result: unknown;
   private errors: ValidationError[];
-  private bytesProcessed: number;
+  private recoveries: Recovery[];
   private completedPaths: Set<string>;
   private pendingPaths: Set<string>;
+  /** Paths whose value in the data tree is a partial string or number */
+  private partialPaths: Set<string>;
+  /** JSON Patch operations since the last ParseResult */
+  private patch: JSONPatchOperation[];
+  /** Copy-on-write version of data for the immutable option */
+  private view: unknown;
+  private currentToken: Token | null;
+  private completedDocuments: number;
+  /** Non-empty json-seq records seen, and the ones that failed */
+  private records: number;
+  private recordErrors: RecordError[];
+  /** Syntax error that put the current json-seq record in the Error state */
+  private lastError: ParseError | null;
+  /** Handlers registered with on(); kept across reset() like events */
+  private subscriptions: Subscription[];
+  /** Compiled arrayItems.paths */
+  private arrayItemSelectors: JSONPathSegment[][];
+  /** Whether onValueStart has fired for the string or number now streaming */
+  private valueStarted: boolean;
+  /** Start offset and length passed to onStringDelta so far of the string now streaming */
+  private streamedString: { position: number; length: number } | null;
+
+  constructor(options: ParserOptions<T, F> = {}) {
+    if (options.strict && (options.llmMode || options.dialect === 'json5' || options.allowTrailingCommas ||
+        options.allowUnquotedKeys || options.allowSingleQuotes)) {
+      throw new Error('strict cannot be combined with llmMode, the json5 dialect or the relaxed syntax options');
+    }
 
-  constructor(options: ParserOptions<T> = {}) {
+    const json5 = options.dialect === 'json5';
     this.options = {
       maxDepth: 100,
       llmMode: false,
-      allowTrailingCommas: false,
-      allowUnquotedKeys: false,
-      allowSingleQuotes: false,
+      allowTrailingCommas: json5,
+      allowUnquotedKeys: json5,
+      allowSingleQuotes: json5,
+      dialect: 'json',
       ...options,
     };
 
@@ -41,16 +98,41 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
       allowTrailingCommas: this.options.allowTrailingCommas,
       allowUnquotedKeys: this.options.allowUnquotedKeys,
       allowSingleQuotes: this.options.allowSingleQuotes,
+      dialect: this.options.dialect,
+      unpairedSurrogates: this.options.unpairedSurrogates,
+      extractJSON: this.options.extractJSON,
+      numberMode: this.options.numberMode,
+      strict: this.options.strict,
+      recordSeparators: this.options.framing === 'json-seq',
     });
 
-    this.validator = this.options.schema ? new SchemaValidator(this.options.schema) : null;
+    const { events } = this.options;
+    this.events = this.options.pathFormat === 'pointer' && events
+      ? pointerEvents(events as ParserEvents<InferSchemaType<T>, string>)
+      : events as ParserEvents<InferSchemaType<T>> | undefined;
+
+    this.validator = this.options.schema
+      ? new SchemaValidator(this.options.schema, { numberMode: this.options.numberMode })
+      : null;
     this.state = ParserState.Initial;
     this.stack = [];
     this.result = undefined;
     this.errors = [];
-    this.bytesProcessed = 0;
+    this.recoveries = [];
     this.completedPaths = new Set();
     this.pendingPaths = new Set();
+    this.partialPaths = new Set();
+    this.patch = [];
+    this.view = undefined;
+    this.currentToken = null;
+    this.completedDocuments = 0;
+    this.records = 0;
+    this.recordErrors = [];
+    this.lastError = null;
+    this.subscriptions = [];
+    this.valueStarted = false;
+    this.streamedString = null;
+    this.arrayItemSelectors = (this.options.arrayItems?.paths ?? []).map(compileJSONPath);
   }
 
   reset(): void {
@@ -59,9 +141,19 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
     this.stack = [];
     this.result = undefined;
     this.errors = [];
-    this.bytesProcessed = 0;
+    this.recoveries = [];
     this.completedPaths.clear();
     this.pendingPaths.clear();
+    this.partialPaths.clear();
+    this.patch = [];
+    this.view = undefined;
+    this.currentToken = null;
+    this.completedDocuments = 0;
+    this.records = 0;
+    this.recordErrors = [];
+    this.lastError = null;
+    this.valueStarted = false;
+    this.streamedString = null;
   }
 
   getState(): ParserState {
@@ -76,19 +168,29 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
     if (!this.isComplete()) {
       throw new Error('Parsing is not complete');
     }
-    return this.result as InferSchemaType<T>;
+    return this.resultValue();
   }
 
-  feed(chunk: string): ParseResult<InferSchemaType<T>> {
-    this.bytesProcessed += chunk.length;
+  on(selector: string, handler: SubscriptionHandler<FormattedPath<F>>, options: SubscriptionOptions = {}): () => void {
+    const subscription: Subscription = {
+      segments: compileJSONPath(selector),
+      handler: (value, path, partial) => handler(value, this.formatPath(path), partial),
+      streaming: options.streaming ?? false,
+    };
+    this.subscriptions.push(subscription);
 
+    return () => {
+      this.subscriptions = this.subscriptions.filter(entry => entry !== subscription);
+    };
+  }
+
+  feed(chunk: StreamChunk): ParseResult<InferSchemaType<T>, FormattedPath<F>> {
     // Update tokenizer's expectingKey state based on parser state
-    this.tokenizer.setExpectingKey(
-      this.state === ParserState.ExpectingKey ||
-      (this.state === ParserState.Initial && this.stack.length === 0)
-    );
+    this.tokenizer.setExpectingKey(this.state === ParserState.ExpectingKey);
 
     const tokens = this.tokenizer.feed(chunk);
+    // A partial value is either completed by this chunk or written again below
+    this.partialPaths.clear();
 
     for (const token of tokens) {
       this.processToken(token);
@@ -97,13 +199,293 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
     // Handle partial tokens
     const partialToken = this.tokenizer.getPartialToken();
     if (partialToken) {
+      this.streamPartialString(partialToken);
       this.handlePartialToken(partialToken);
     }
 
     return this.buildResult();
   }
 
+  end(): ParseResult<InferSchemaType<T>, FormattedPath<F>> {
+    if (this.options.framing === 'json-seq') {
+      return this.endSequence();
+    }
+
+    for (const token of this.tokenizer.end()) {
+      this.processToken(token);
+    }
+    this.addTokenizerRecoveries();
+
+    // Between documents of a multi-document stream nothing is left open
+    const idle = this.options.multiDocument && this.state === ParserState.Initial && !this.tokenizer.getPartialToken();
+    if (idle) {
+      this.state = ParserState.Complete;
+    } else if (this.state !== ParserState.Complete && this.state !== ParserState.Error) {
+      this.reportTruncation();
+    }
+
+    return this.buildResult();
+  }
+
+  finalize(options: FinalizeOptions = {}): FinalizeResult<InferSchemaType<T>, FormattedPath<F>> {
+    if (this.options.multiDocument || this.options.framing === 'json-seq') {
+      throw new Error('finalize() completes a single document; use end() with multiDocument or json-seq framing');
+    }
+
+    // end() would flush a number cut off inside a container as if it were
+    // complete, or reject one such as "1e"; repair finishes it instead
+    const pending = this.tokenizer.getPartialToken();
+    const cutNumber = options.repair && this.stack.length > 0 && pending?.type === TokenType.PartialNumber;
+    const tokens = this.tokenizer.end();
+    if (!cutNumber) {
+      for (const token of tokens) {
+        this.processToken(token);
+      }
+    }
+    this.addTokenizerRecoveries();
+    this.partialPaths.clear();
+
+    const repairs: Repair[] = [];
+    if (this.state !== ParserState.Complete && options.repair) {
+      this.repair(cutNumber ? pending : this.tokenizer.getPartialToken(), options.danglingKeys ?? 'drop', repairs);
+    }
+    if (this.state !== ParserState.Complete) {
+      throw this.reportTruncation();
+    }
+
+    return {
+      value: this.resultValue(),
+      valid: this.errors.length === 0,
+      errors: this.formatPaths(this.errors),
+      repairs: this.formatPaths(repairs),
+      patch: this.takePatch(),
+    };
+  }
+
+  /**
+   * Complete a truncated document: finish the pending string, number or
+   * literal, settle a dangling key, then close every open container. The
+   * repaired parts go through the usual state machine, so they are
+   * validated like parsed input.
+   */
+  private repair(partial: Token | null, danglingKeys: 'drop' | 'null', repairs: Repair[]): void {
+    const note = (kind: RepairKind, path: string[], message: string): void => {
+      repairs.push({ kind, path, message: path.length > 0 ? `${message} at ${this.fieldKey(path)}` : message });
+    };
+
+    if (this.state === ParserState.Error) {
+      // LLM mode: whatever broke the value is abandoned
+      const frame = this.currentFrame();
+      if (frame?.type === 'object') {
+        frame.currentKey = undefined;
+      }
+      this.state = ParserState.ExpectingCommaOrEnd;
+    }
+
+    const valuePosition = this.state === ParserState.ExpectingValue ||
+      this.state === ParserState.InArray || this.state === ParserState.Initial;
+    if (partial && partial.type === TokenType.PartialKey) {
+      note('dropped-key', this.getCurrentPath(), `Dropped unterminated key "${String(partial.value)}"`);
+    } else if (partial && valuePosition) {
+      const path = this.getCurrentPath(true);
+      const literal = partial.type === TokenType.PartialString ? this.tokenizer.completeKeyword(partial.raw) : null;
+      if (literal) {
+        note('completed-literal', path, `Completed ${partial.raw} as ${literal.keyword}`);
+        this.processToken(this.repairToken(literal.type, literal.value));
+      } else if (partial.type === TokenType.PartialString) {
+        note('closed-string', path, 'Closed unterminated string');
+        // Located where the string began, like a string that closed normally
+        const { position, line, column } = partial;
+        this.processToken({ ...this.repairToken(TokenType.String, partial.value), position, line, column });
+      } else {
+        const value = this.tokenizer.convertPartialNumber(partial.raw);
+        if (value === undefined) {
+          note('dropped-value', path, `Dropped incomplete number ${partial.raw}`);
+        } else {
+          note('completed-number', path, `Completed number ${partial.raw} as ${String(value)}`);
+          const raw = this.tokenizer.numberPrefix(partial.raw);
+          this.processToken({ ...this.repairToken(TokenType.Number, value), raw });
+        }
+      }
+    }
+
+    // A key whose value never arrived
+    const frame = this.currentFrame();
+    if (frame?.type === 'object' && frame.currentKey !== undefined &&
+        (this.state === ParserState.ExpectingColon || this.state === ParserState.ExpectingValue)) {
+      const path = this.getCurrentPath(true);
+      if (danglingKeys === 'null') {
+        note('null-value', path, `Set key "${frame.currentKey}" with no value to null`);
+        this.state = ParserState.ExpectingValue;
+        this.processToken(this.repairToken(TokenType.Null, null));
+      } else {
+        note('dropped-key', path, `Dropped key "${frame.currentKey}" with no value`);
+        this.pendingPaths.delete(this.fieldKey(path));
+        frame.currentKey = undefined;
+      }
+    }
+
+    while (this.stack.length > 0 && this.getState() !== ParserState.Error) {
+      const top = this.stack[this.stack.length - 1]!;
+      // The container's own path, without the key or index it is waiting on
+      const path = this.getCurrentPath(true);
+      if (top.type === 'array' || top.currentKey !== undefined) {
+        path.pop();
+      }
+
+      // Closing from here skips the trailing comma checks
+      this.state = ParserState.ExpectingCommaOrEnd;
+      if (top.type === 'object') {
+        note('closed-object', path, 'Closed unterminated object');
+        this.processToken(this.repairToken(TokenType.ObjectEnd, '}'));
+      } else {
+        note('closed-array', path, 'Closed unterminated array');
+        this.processToken(this.repairToken(TokenType.ArrayEnd, ']'));
+      }
+    }
+  }
+
+  /**
+   * A token standing in for input that never arrived, located at the end of
+   * the input
+   */
+  private repairToken(type: TokenType, value: unknown): Token {
+    const { offset, line, column } = this.tokenizer.getLocation();
+    return { type, value, raw: '', position: offset, line, column, isPartial: false };
+  }
+
+  /**
+   * Finish the last json-seq record. RFC 7464 treats anything still pending
+   * at the end of the stream, even a number, as possibly cut short.
+   */
+  private endSequence(): ParseResult<InferSchemaType<T>, FormattedPath<F>> {
+    const cut = this.tokenizer.getPartialToken() !== null;
+    const tokens = this.tokenizer.end();
+    if (!cut) {
+      for (const token of tokens) {
+        this.processToken(token);
+      }
+    }
+    this.addTokenizerRecoveries();
+
+    this.currentToken = null;
+    this.endRecord(cut);
+    this.state = ParserState.Complete;
+    return this.buildResult();
+  }
+
+  /**
+   * Close the current json-seq record: a complete value is reported through
+   * onDocument, anything else as a RecordError, and the next record starts
+   * from scratch
+   */
+  private endRecord(cut: boolean): void {
+    if (this.state === ParserState.Initial && !cut) {
+      // Empty records, such as two separators in a row, carry nothing
+      return;
+    }
+
+    const record = this.records++;
+    if (this.state === ParserState.Complete && !cut) {
+      const index = this.completedDocuments++;
+      this.events?.onDocument?.(this.resultValue(), index, [...this.errors]);
+    } else if (this.state === ParserState.Complete || this.state === ParserState.Error) {
+      const error = this.lastError;
+      const { offset, line, column } = error ?? this.currentLocation();
+      const message = error?.reason ?? 'Unexpected input after the record value';
+      this.reportRecordError({ record, kind: 'malformed', message, offset, line, column });
+    } else {
+      const openContainers = this.stack.map(frame => frame.type);
+      const path = this.getCurrentPath(true);
+      let message = 'Record truncated';
+      if (openContainers.length > 0) {
+        message += ` with unclosed ${openContainers.join(' > ')}`;
+      }
+      if (path.length > 0) {
+        message += ` at ${this.fieldKey(path)}`;
+      }
+      this.reportRecordError({ record, kind: 'truncated', message, ...this.currentLocation() });
+    }
+
+    this.resetDocument();
+  }
+
+  private reportRecordError(error: RecordError): void {
+    this.recordErrors.push(error);
+    this.events?.onRecordError?.(error);
+  }
+
+  /**
+   * Record that the input ended mid-value, naming the open containers and
+   * any unterminated string or keyword
+   */
+  private reportTruncation(): TruncationError<FormattedPath<F>> {
+    const openContainers = this.stack.map(frame => frame.type);
+    const path = this.getCurrentPath(true);
+    const partial = this.tokenizer.getPartialToken();
+
+    let reason = 'Unexpected end of input';
+    // Numbers are always flushed by the tokenizer, so only a string or a
+    // keyword prefix can be left pending
+    if (partial) {
+      const quoted = partial.raw.startsWith('"') || partial.raw.startsWith("'");
+      reason += quoted ? ' in unterminated string' : ` in incomplete literal "${partial.raw}"`;
+    }
+    if (openContainers.length > 0) {
+      reason += ` with unclosed ${openContainers.join(' > ')}`;
+    } else if (!partial) {
+      reason += ': no JSON value';
+    }
+    if (path.length > 0) {
+      reason += ` at ${this.fieldKey(path)}`;
+    }
+
+    const location = this.tokenizer.getLocation();
+    const error = new TruncationError(
+      reason,
+      location,
+      this.tokenizer.getSourceExcerpt(location.offset),
+      openContainers,
+      this.formatPath(path)
+    );
+
+    this.state = ParserState.Error;
+    this.errors.push({
+      path,
+      message: reason,
+      keyword: 'truncated',
+      schema: this.options.schema ?? {},
+    });
+    this.events?.onError?.(error);
+    return error;
+  }
+
   private processToken(token: Token): void {
+    this.currentToken = token;
+
+    if (token.type === TokenType.RecordSeparator) {
+      this.endRecord(token.value === true);
+      return;
+    }
+
+    // A bad json-seq record is abandoned up to the next separator
+    if (this.options.framing === 'json-seq' && this.state === ParserState.Error) {
+      return;
+    }
+
+    if (this.rejectsBareWord(token)) {
+      return;
+    }
+
+    if (token.recoveries) {
+      const keyPosition = (this.state === ParserState.ExpectingKey || this.state === ParserState.InObject) &&
+        (token.type === TokenType.Key || token.type === TokenType.String);
+      const path = keyPosition ? [...this.getCurrentPath(), String(token.value)] : this.getCurrentPath(true);
+      for (const recovery of token.recoveries) {
+        this.addRecovery(recovery, path);
+      }
+    }
+
     if (token.type === TokenType.Error) {
       this.handleError(token);
       return;
@@ -136,7 +518,12 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
         break;
 
       case ParserState.Complete:
-        // Ignore tokens after completion
+        // Ignore tokens after completion, unless input must be a single value
+        if (this.options.strict) {
+          this.setError(`Unexpected ${token.type} after the top-level value`);
+        } else if (this.options.framing === 'json-seq') {
+          this.setError(`Unexpected ${token.type} after the record value`);
+        }
         break;
 
       case ParserState.Error:
@@ -148,6 +535,42 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
     }
   }
 
+  /**
+   * LLM mode reads bare words in value position as strings. Where the schema
+   * rules out a string the word is dropped instead, leaving the field
+   * missing, and reported as a syntax error.
+   */
+  private rejectsBareWord(token: Token): boolean {
+    if (!this.validator || !token.recoveries?.some(r => r.kind === 'unquoted-string')) {
+      return false;
+    }
+    if (this.state !== ParserState.ExpectingValue && this.state !== ParserState.InArray) {
+      return false;
+    }
+
+    const path = this.getCurrentPath(true);
+    if (this.validator.canBeType('string', path)) {
+      return false;
+    }
+
+    const message = `Unquoted value ${token.raw} where the schema does not allow a string`;
+    this.errors.push({
+      path,
+      message,
+      keyword: 'syntax',
+      schema: this.validator.getSchemaAtPath(path) ?? {},
+    });
+    this.recover('skipped-token', `Dropped ${message}`);
+
+    const frame = this.currentFrame();
+    if (frame?.type === 'object') {
+      this.pendingPaths.delete(this.fieldKey(path));
+      frame.currentKey = undefined;
+    }
+    this.state = ParserState.ExpectingCommaOrEnd;
+    return true;
+  }
+
   private handleInitialState(token: Token): void {
     switch (token.type) {
       case TokenType.ObjectStart:
@@ -164,8 +587,9 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
       case TokenType.Number:
       case TokenType.Boolean:
       case TokenType.Null:
-        this.result = token.value;
-        this.validateValue(this.result, []);
+        this.store(token.value);
+        this.validateValue(token.value, [], this.numberText());
+        this.completeValue(token.value);
         this.state = ParserState.Complete;
         this.emitComplete();
         break;
@@ -187,19 +611,35 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
       case TokenType.String:
         // Both Key and String tokens can be object keys
         // The tokenizer may return String when it doesn't know context
+        this.emitStringDelta(token, this.getCurrentPath(), true, true);
         frame.currentKey = token.value as string;
-        this.pendingPaths.add(this.getCurrentPath().join('.'));
+        this.pendingPaths.add(this.fieldKey(this.getCurrentPath()));
+        this.events?.onKey?.(frame.currentKey, this.getCurrentPath(true), this.currentLocation());
         this.state = ParserState.ExpectingColon;
         break;
 
       case TokenType.ObjectEnd:
+        // Keys are expected here after '{' or after a comma
+        if (this.options.strict && frame.completedKeys.size > 0) {
+          this.setError('Trailing comma before }');
+          return;
+        }
+        if (this.repairsTrailingCommas() && frame.completedKeys.size > 0) {
+          this.recover('trailing-comma', 'Removed trailing comma before }', this.getCurrentPath());
+        }
         this.endObject();
         break;
 
       case TokenType.Comma:
+        if (this.options.strict) {
+          this.setError('Unexpected comma: expected key');
+          return;
+        }
+        if (this.options.llmMode) {
+          this.recover('extra-comma', 'Removed extra comma');
+        }
         // After comma, expect next key
         this.state = ParserState.ExpectingKey;
-        this.tokenizer.setExpectingKey(true);
         break;
 
       default:
@@ -212,6 +652,7 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
       this.state = ParserState.ExpectingValue;
     } else if (this.options.llmMode) {
       // In LLM mode, try to be lenient
+      this.recover('missing-colon', `Inserted missing : after key "${this.currentFrame()?.currentKey ?? ''}"`);
       this.state = ParserState.ExpectingValue;
       // Re-process this token as a value
       this.handleValueState(token);
@@ -246,7 +687,10 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
         // Handle empty value in LLM mode
         if (this.options.llmMode && frame) {
           if (frame.type === 'object') {
+            this.recover('missing-value', `Dropped key "${frame.currentKey ?? ''}" with no value`);
             this.endObject();
+          } else {
+            this.recover('skipped-token', 'Skipped } in array');
           }
         } else {
           this.setError(`Unexpected } when expecting value`);
@@ -258,6 +702,8 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
         if (this.options.llmMode && frame) {
           if (frame.type === 'array') {
             this.endArray();
+          } else {
+            this.recover('skipped-token', 'Skipped ] in object');
           }
         } else {
           this.setError(`Unexpected ] when expecting value`);
@@ -288,6 +734,14 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
         break;
 
       case TokenType.ArrayEnd:
+        // Items are expected here after '[' or after a comma
+        if (this.options.strict && frame.arrayIndex > 0) {
+          this.setError('Trailing comma before ]');
+          return;
+        }
+        if (this.repairsTrailingCommas() && frame.arrayIndex > 0) {
+          this.recover('trailing-comma', 'Removed trailing comma before ]', this.getCurrentPath().slice(0, -1));
+        }
         this.endArray();
         break;
 
@@ -300,7 +754,10 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
         break;
 
       case TokenType.Comma:
-        if (this.options.allowTrailingCommas || this.options.llmMode) {
+        if (this.options.llmMode) {
+          // A leading or consecutive comma
+          this.recover('extra-comma', 'Removed extra comma');
+        } else if (this.options.allowTrailingCommas) {
           // Allow trailing comma or consecutive comma
         } else {
           this.setError(`Unexpected comma in array`);
@@ -324,8 +781,8 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
     switch (token.type) {
       case TokenType.Comma:
         if (frame.type === 'object') {
+          // The tokenizer tracks key position itself as it lexes
           this.state = ParserState.ExpectingKey;
-          this.tokenizer.setExpectingKey(true);
         } else {
           this.state = ParserState.InArray;
         }
@@ -350,6 +807,7 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
       default:
         if (this.options.llmMode) {
           // Try to recover - might be missing comma
+          this.recover('missing-comma', `Inserted missing comma before ${token.type}`);
           if (frame.type === 'object') {
             this.state = ParserState.ExpectingKey;
             this.handleObjectState(token);
@@ -363,20 +821,150 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
     }
   }
 
+  /**
+   * Pass the characters a quoted key or string value gained in this chunk to
+   * onStringDelta
+   */
+  private streamPartialString(token: Token): void {
+    if (!this.events?.onStringDelta || !this.tokenizer.isInString()) {
+      return;
+    }
+
+    if (this.state === ParserState.ExpectingKey || this.state === ParserState.InObject) {
+      this.emitStringDelta(token, this.getCurrentPath(), false, true);
+    } else if (this.state === ParserState.ExpectingValue || this.state === ParserState.InArray ||
+        this.state === ParserState.Initial) {
+      this.emitStringDelta(token, this.getCurrentPath(true), false, false);
+    }
+  }
+
+  /**
+   * Call onStringDelta with what a string token adds to the text already
+   * sent for the string starting at the same offset
+   */
+  private emitStringDelta(token: Token, path: string[], final: boolean, isKey: boolean): void {
+    const onStringDelta = this.events?.onStringDelta;
+    if (!onStringDelta) {
+      return;
+    }
+
+    const soFar = String(token.value);
+    const sent = this.streamedString?.position === token.position ? this.streamedString.length : 0;
+    // Slicing soFar on every chunk would copy the whole string each time, so
+    // an open string takes what the tokenizer decoded since the last chunk
+    const delta = final ? soFar.slice(sent) : this.tokenizer.takeStringDelta();
+    // A chunk that ended inside an escape may add nothing yet
+    if (delta === '' && !final) {
+      return;
+    }
+
+    this.streamedString = final ? null : { position: token.position, length: sent + delta.length };
+    onStringDelta(path, delta, soFar, final, isKey);
+  }
+
   private handlePartialToken(token: Token): void {
-    // Update pending paths to show what's being parsed
-    const path = this.getCurrentPath();
+    if (token.type !== TokenType.PartialString && token.type !== TokenType.PartialNumber) {
+      return;
+    }
+    const valuePosition = this.state === ParserState.ExpectingValue ||
+      this.state === ParserState.InArray || this.state === ParserState.Initial;
+    if (!valuePosition) {
+      return;
+    }
 
-    if (token.type === TokenType.PartialString || token.type === TokenType.PartialNumber) {
-      // If we have a current key in an object, the partial value belongs to that key
-      const frame = this.currentFrame();
-      if (frame?.type === 'object' && frame.currentKey) {
-        const valuePath = [...path, frame.currentKey].join('.');
-        this.pendingPaths.add(valuePath);
-      } else if (frame?.type === 'array') {
-        const valuePath = [...path, String(frame.arrayIndex)].join('.');
-        this.pendingPaths.add(valuePath);
+    // Update pending paths to show what's being parsed; the current key or
+    // array index is where the partial value belongs
+    const frame = this.currentFrame();
+    const path = this.fieldKey(this.getCurrentPath(true));
+    if (frame) {
+      this.pendingPaths.add(path);
+    }
+
+    if (!this.valueStarted) {
+      this.valueStarted = true;
+      const location = { offset: token.position, line: token.line, column: token.column };
+      this.events?.onValueStart?.(this.getCurrentPath(true), location);
+    }
+
+    const streaming = this.subscriptions.some(subscription => subscription.streaming);
+    if (!this.options.partialValues && !streaming) {
+      return;
+    }
+    // A keyword prefix such as "tr" also arrives as a partial string
+    if (token.type === TokenType.PartialString && !this.tokenizer.isInString()) {
+      return;
+    }
+
+    const value = token.type === TokenType.PartialString
+      ? token.value
+      : this.tokenizer.convertPartialNumber(token.raw);
+    if (value === undefined) {
+      return;
+    }
+
+    if (this.options.partialValues) {
+      this.writePartial(value);
+      if (!this.insideDroppedItem()) {
+        this.partialPaths.add(path);
+      }
+    }
+    this.notifySubscribers(value, true);
+  }
+
+  /**
+   * Write an unfinished value at the current key or array index without
+   * validating it, so the data tree shows it before the complete value
+   * replaces it
+   */
+  private writePartial(value: unknown): void {
+    const frame = this.currentFrame();
+    if (frame?.type !== 'object' || frame.currentKey !== undefined) {
+      this.store(value);
+    }
+  }
+
+  /**
+   * Store a value at the current key or array index, or as the top-level
+   * result, recording a JSON Patch operation when the change shows in data
+   */
+  private store(value: unknown): void {
+    const frame = this.currentFrame();
+    let previous: unknown;
+    let existed: boolean;
+    if (!frame) {
+      previous = this.result;
+      existed = previous !== undefined;
+      this.result = value;
+    } else if (frame.type === 'array') {
+      if (frame.summary) {
+        // Items of a non-retained array only reach onArrayItem
+        return;
       }
+      const items = frame.data as unknown[];
+      previous = items[frame.arrayIndex];
+      existed = frame.arrayIndex < items.length;
+      items[frame.arrayIndex] = value;
+    } else {
+      const key = frame.currentKey ?? '';
+      const entries = frame.data as Record<string, unknown>;
+      previous = entries[key];
+      existed = Object.prototype.hasOwnProperty.call(entries, key);
+      entries[key] = value;
+    }
+
+    // Open containers below the root are only part of data with partialValues
+    const visible = (this.stack.length <= 1 || this.options.partialValues) && !this.insideDroppedItem();
+    if (!visible || (previous === value && existed)) {
+      return;
+    }
+
+    const path = this.getCurrentPath(true);
+    if (this.options.jsonPatch) {
+      this.patch.push({ op: existed ? 'replace' : 'add', path: toPointer(path), value: snapshot(value) });
+    }
+    if (this.options.immutable) {
+      // The parser keeps mutating its own containers, so the view gets copies
+      this.view = assignIn(this.view, path, snapshot(value));
     }
   }
 
@@ -389,6 +977,7 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
         keyword: 'syntax',
         schema: this.options.schema ?? {},
       });
+      this.recover('skipped-token', `Skipped invalid input: ${String(token.value)}`);
     } else {
       this.setError(String(token.value));
     }
@@ -411,8 +1000,12 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
         if (this.stack.length > 0) {
           this.state = ParserState.ExpectingCommaOrEnd;
           this.processToken(token);
+        } else {
+          this.recover('skipped-token', `Skipped ${token.type} after a syntax error`);
         }
         break;
+      default:
+        this.recover('skipped-token', `Skipped ${token.type} after a syntax error`);
     }
   }
 
@@ -434,7 +1027,7 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
         keyword: 'type',
         schema: schema ?? {},
       });
-      this.options.events?.onValidationError?.(this.errors[this.errors.length - 1]!);
+      this.events?.onValidationError?.(this.errors[this.errors.length - 1]!);
     }
 
     const frame: StackFrame = {
@@ -445,8 +1038,20 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
       arrayIndex: 0,
     };
 
+    // Open containers only reach their parent when they close, unless
+    // partial values should be visible inside them; the root is data as
+    // soon as it opens
+    if (this.options.partialValues || this.stack.length === 0) {
+      this.writePartial(frame.data);
+    }
+
     this.stack.push(frame);
-    this.pendingPaths.add(path.join('.'));
+    this.pendingPaths.add(this.fieldKey(path));
+
+    const location = this.currentLocation();
+    this.valueStarted = false;
+    this.events?.onValueStart?.(path, location);
+    this.events?.onObjectStart?.(path, location);
   }
 
   private endObject(): void {
@@ -458,17 +1063,17 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
 
     // After popping, include parent's currentKey to get the path where this object lived
     const path = this.getCurrentPath(true);
-    const pathStr = path.join('.');
+    const pathStr = this.fieldKey(path);
 
     // Mark as complete
-    this.completedPaths.add(pathStr);
-    this.pendingPaths.delete(pathStr);
+    this.completePath(pathStr);
 
     // Validate complete object
     this.validateValue(frame.data, path);
 
     // Emit completion event
-    this.options.events?.onPartialObject?.(frame.data as Partial<InferSchemaType<T>>, path);
+    this.events?.onPartialObject?.(frame.data as Partial<InferSchemaType<T>>, path);
+    this.events?.onObjectEnd?.(frame.data as Record<string, unknown>, path, this.currentLocation());
 
     // Assign to parent or result
     this.assignValue(frame.data);
@@ -500,7 +1105,7 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
         keyword: 'type',
         schema: schema ?? {},
       });
-      this.options.events?.onValidationError?.(this.errors[this.errors.length - 1]!);
+      this.events?.onValidationError?.(this.errors[this.errors.length - 1]!);
     }
 
     const frame: StackFrame = {
@@ -511,8 +1116,28 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
       arrayIndex: 0,
     };
 
+    const kinds = this.getPathKinds();
+    if (this.arrayItemSelectors.some(segments => matchesJSONPath(segments, path, kinds))) {
+      frame.emitItems = true;
+      if (this.options.arrayItems?.retain === false) {
+        frame.summary = { containsMatched: false, seen: new Set(), duplicate: false };
+      }
+    }
+
+    // Open containers only reach their parent when they close, unless
+    // partial values should be visible inside them; the root is data as
+    // soon as it opens
+    if (this.options.partialValues || this.stack.length === 0) {
+      this.writePartial(frame.data);
+    }
+
     this.stack.push(frame);
-    this.pendingPaths.add(path.join('.'));
+    this.pendingPaths.add(this.fieldKey(path));
+
+    const location = this.currentLocation();
+    this.valueStarted = false;
+    this.events?.onValueStart?.(path, location);
+    this.events?.onArrayStart?.(path, location);
   }
 
   private endArray(): void {
@@ -524,14 +1149,20 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
 
     // After popping, include parent's currentKey to get the path where this array lived
     const path = this.getCurrentPath(true);
-    const pathStr = path.join('.');
+    const pathStr = this.fieldKey(path);
 
     // Mark as complete
-    this.completedPaths.add(pathStr);
-    this.pendingPaths.delete(pathStr);
+    this.completePath(pathStr);
 
-    // Validate complete array
-    this.validateValue(frame.data, path);
+    // Validate complete array; dropped items were already validated one by one
+    if (frame.summary) {
+      const array = frame.data as unknown[];
+      const errors = this.validator?.validateArraySummary(array, frame.summary, frame.arrayIndex, frame.schema, path);
+      this.addValidationErrors(errors ?? []);
+    } else {
+      this.validateValue(frame.data, path);
+    }
+    this.events?.onArrayEnd?.(frame.data as unknown[], path, this.currentLocation());
 
     // Assign to parent or result
     this.assignValue(frame.data);
@@ -548,32 +1179,37 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
   private setValue(value: unknown): void {
     const frame = this.currentFrame();
     if (!frame) {
-      this.result = value;
-      this.validateValue(value, []);
+      this.store(value);
+      this.validateValue(value, [], this.numberText());
+      this.completeValue(value);
       return;
     }
 
     if (frame.type === 'object') {
-      if (!frame.currentKey) {
+      if (frame.currentKey === undefined) {
         this.setError('No current key for value');
         return;
       }
 
       const path = [...this.getCurrentPath(), frame.currentKey];
-      const pathStr = path.join('.');
+      const pathStr = this.fieldKey(path);
 
-      (frame.data as Record<string, unknown>)[frame.currentKey] = value;
+      this.store(value);
       frame.completedKeys.add(frame.currentKey);
 
       // Mark field as complete
-      this.completedPaths.add(pathStr);
-      this.pendingPaths.delete(pathStr);
+      this.completePath(pathStr);
 
       // Validate the value
-      this.validateValue(value, path);
+      const numberText = this.numberText();
+      if (numberText !== undefined) {
+        this.validator?.markNumber(frame.data, frame.currentKey, numberText);
+      }
+      this.validateValue(value, path, numberText);
+      this.completeValue(value);
 
       // Emit field completion
-      this.options.events?.onCompleteField?.(frame.currentKey, value, this.getCurrentPath());
+      this.events?.onCompleteField?.(frame.currentKey, value, this.getCurrentPath());
 
       frame.currentKey = undefined;
     } else {
@@ -590,16 +1226,22 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
 
     // getCurrentPath already includes arrayIndex for array frames
     const path = this.getCurrentPath();
-    const pathStr = path.join('.');
+    const pathStr = this.fieldKey(path);
 
-    (frame.data as unknown[]).push(value);
+    // Assigned by index, replacing any partial value written there
+    this.store(value);
 
     // Mark as complete
-    this.completedPaths.add(pathStr);
-    this.pendingPaths.delete(pathStr);
+    this.completePath(pathStr);
 
     // Validate
-    this.validateValue(value, path);
+    const numberText = this.numberText();
+    if (numberText !== undefined && !frame.summary) {
+      this.validator?.markNumber(frame.data, String(frame.arrayIndex), numberText);
+    }
+    this.validateValue(value, path, numberText);
+    this.completeValue(value);
+    this.emitArrayItem(frame, value);
 
     frame.arrayIndex++;
   }
@@ -607,39 +1249,131 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
   private assignValue(value: unknown): void {
     const frame = this.currentFrame();
     if (!frame) {
-      this.result = value;
+      this.store(value);
+      this.completeValue(value, true);
       return;
     }
 
     if (frame.type === 'object') {
-      if (!frame.currentKey) {
+      if (frame.currentKey === undefined) {
         this.setError('No current key for value');
         return;
       }
-      (frame.data as Record<string, unknown>)[frame.currentKey] = value;
+      this.store(value);
       frame.completedKeys.add(frame.currentKey);
 
       const path = [...this.getCurrentPath(), frame.currentKey];
-      this.completedPaths.add(path.join('.'));
+      this.completePath(this.fieldKey(path));
+      this.completeValue(value, true);
 
-      this.options.events?.onCompleteField?.(frame.currentKey, value, this.getCurrentPath());
+      this.events?.onCompleteField?.(frame.currentKey, value, this.getCurrentPath());
       frame.currentKey = undefined;
     } else {
-      (frame.data as unknown[]).push(value);
+      this.store(value);
+      this.completeValue(value, true);
+      this.emitArrayItem(frame, value);
       frame.arrayIndex++;
     }
   }
 
-  private validateValue(value: unknown, path: string[]): void {
+  /**
+   * Hand a completed item of an array selected by arrayItems to onArrayItem,
+   * summarizing it for validation when the item is not kept
+   */
+  private emitArrayItem(frame: StackFrame, item: unknown): void {
+    if (!frame.emitItems) {
+      return;
+    }
+
+    // getCurrentPath ends with the item's index
+    const path = this.getCurrentPath().slice(0, -1);
+    if (frame.summary) {
+      this.validator?.summarizeArrayItem(frame.summary, item, frame.schema, path, this.numberText());
+    }
+    this.events?.onArrayItem?.(item, frame.arrayIndex, path);
+  }
+
+  /**
+   * Mark a path complete. Paths inside dropped array items are not kept, so
+   * completedFields stays as small as the retained data.
+   */
+  private completePath(path: string): void {
+    this.pendingPaths.delete(path);
+    if (!this.insideDroppedItem()) {
+      this.completedPaths.add(path);
+    }
+  }
+
+  private insideDroppedItem(): boolean {
+    return this.stack.some(frame => frame.summary !== undefined);
+  }
+
+  /**
+   * Report a value completed at the current key or array index. A string or
+   * number that arrived in a single chunk is announced by onValueStart here.
+   */
+  private completeValue(value: unknown, container = false): void {
+    const events = this.events;
+    if (!container && !this.valueStarted) {
+      events?.onValueStart?.(this.getCurrentPath(true), this.currentLocation());
+    }
+    this.valueStarted = false;
+    if (!container && this.currentToken?.type === TokenType.String) {
+      this.emitStringDelta(this.currentToken, this.getCurrentPath(true), true, false);
+    }
+
+    events?.onValue?.(value, this.getCurrentPath(true), this.currentLocation());
+    this.notifySubscribers(value);
+  }
+
+  /**
+   * Call the handlers whose selector matches the current key or array index
+   */
+  private notifySubscribers(value: unknown, partial = false): void {
+    if (this.subscriptions.length === 0) {
+      return;
+    }
+
+    const path = this.getCurrentPath(true);
+    const kinds = this.getPathKinds();
+    // Copied so a handler can unsubscribe while being called
+    for (const { segments, handler, streaming } of this.subscriptions.slice()) {
+      if ((!partial || streaming) && matchesJSONPath(segments, path, kinds)) {
+        handler(value, path.slice(), partial);
+      }
+    }
+  }
+
+  private validateValue(value: unknown, path: string[], numberText?: string): void {
     if (!this.validator) return;
 
-    const errors = this.validator.validate(value, path);
+    this.addValidationErrors(this.validator.validate(value, path, numberText));
+  }
+
+  /**
+   * Source text of the value being completed if it came from a number
+   * token. With numberMode 'string' or a factory the stored value does not
+   * show it.
+   */
+  private numberText(): string | undefined {
+    return this.currentToken?.type === TokenType.Number ? this.currentToken.raw : undefined;
+  }
+
+  private addValidationErrors(errors: ValidationError[]): void {
     for (const error of errors) {
       this.errors.push(error);
-      this.options.events?.onValidationError?.(error);
+      this.events?.onValidationError?.(error);
     }
   }
 
+  /**
+   * Whether each element of getCurrentPath(true) is an object key or an
+   * array index; every frame on the stack contributes one element
+   */
+  private getPathKinds(): PathElementKind[] {
+    return this.stack.map(frame => frame.type === 'array' ? 'index' : 'key');
+  }
+
   private currentFrame(): StackFrame | undefined {
     return this.stack[this.stack.length - 1];
   }
@@ -652,7 +1386,7 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
 
       const isLastFrame = i === this.stack.length - 1;
 
-      if (frame.type === 'object' && frame.currentKey) {
+      if (frame.type === 'object' && frame.currentKey !== undefined) {
         // Only include currentKey if it's not the last frame OR if explicitly requested
         if (!isLastFrame || includeCurrentKey) {
           path.push(frame.currentKey);
@@ -666,19 +1400,98 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
 
   private setError(message: string): void {
     this.state = ParserState.Error;
-    const error = new Error(message);
-    this.options.events?.onError?.(error);
 
-    if (!this.options.llmMode) {
+    const location = this.currentLocation();
+    const error = new ParseError(message, location, this.tokenizer.getSourceExcerpt(location.offset));
+    this.lastError = error;
+    this.events?.onError?.(error);
+    if (this.options.llmMode) {
+      this.recover('skipped-token', `Skipped ${this.currentToken?.type ?? 'input'}: ${message}`);
+    }
+
+    // json-seq reports the error once the record ends instead of throwing
+    if (!this.options.llmMode && this.options.framing !== 'json-seq') {
       throw error;
     }
   }
 
+  /**
+   * Record a fix with the JSON path of the key or value it affected
+   */
+  private addRecovery(recovery: LocatedRecovery, path = this.getCurrentPath(true)): void {
+    const entry: Recovery = { ...recovery, path };
+    this.recoveries.push(entry);
+    this.events?.onRecovery?.(entry);
+  }
+
+  /**
+   * Record a fix the parser made at the token being processed
+   */
+  private recover(kind: RecoveryKind, message: string, path?: string[]): void {
+    this.addRecovery({ kind, message, ...this.currentLocation() }, path);
+  }
+
+  /**
+   * Characters skipped at the very end of the input have no token to travel
+   * with
+   */
+  private addTokenizerRecoveries(): void {
+    for (const recovery of this.tokenizer.takeRecoveries()) {
+      this.addRecovery(recovery);
+    }
+  }
+
+  /**
+   * Trailing commas are fixes in LLM mode unless the options allow them
+   */
+  private repairsTrailingCommas(): boolean {
+    return this.options.llmMode === true && !this.options.allowTrailingCommas;
+  }
+
+  /**
+   * Location of the token being processed, or of the end of input
+   */
+  private currentLocation(): SourceLocation {
+    return this.currentToken
+      ? { offset: this.currentToken.position, line: this.currentToken.line, column: this.currentToken.column }
+      : this.tokenizer.getLocation();
+  }
+
   private emitComplete(): void {
-    this.options.events?.onComplete?.(this.result as InferSchemaType<T>);
+    // A json-seq record is only reported once its separator confirms it is whole
+    if (this.options.framing === 'json-seq') {
+      return;
+    }
+
+    const index = this.completedDocuments++;
+    if (!this.options.multiDocument) {
+      this.events?.onComplete?.(this.resultValue());
+      return;
+    }
+
+    this.events?.onDocument?.(this.resultValue(), index, [...this.errors]);
+    this.resetDocument();
   }
 
-  private buildResult(): ParseResult<InferSchemaType<T>> {
+  /**
+   * Start over for the next document; the tokenizer keeps its place in the stream
+   */
+  private resetDocument(): void {
+    this.state = ParserState.Initial;
+    this.stack = [];
+    this.result = undefined;
+    this.errors = [];
+    this.recoveries = [];
+    this.completedPaths.clear();
+    this.pendingPaths.clear();
+    this.partialPaths.clear();
+    this.view = undefined;
+    this.lastError = null;
+    this.valueStarted = false;
+    this.streamedString = null;
+  }
+
+  private buildResult(): ParseResult<InferSchemaType<T>, FormattedPath<F>> {
     const currentData = this.getCurrentData();
 
     return {
@@ -687,13 +1500,59 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
       data: currentData as Partial<InferSchemaType<T>> | InferSchemaType<T>,
       completedFields: Array.from(this.completedPaths),
       pendingFields: Array.from(this.pendingPaths),
-      errors: [...this.errors],
+      partialFields: Array.from(this.partialPaths),
+      patch: this.takePatch(),
+      errors: this.formatPaths(this.errors),
+      recoveries: this.formatPaths(this.recoveries),
+      skippedText: this.tokenizer.getSkippedText(),
       depth: this.stack.length,
-      bytesProcessed: this.bytesProcessed,
+      bytesProcessed: this.tokenizer.getBytesProcessed(),
+      charactersProcessed: this.tokenizer.getCharactersProcessed(),
+      completedDocuments: this.completedDocuments,
+      recordErrors: [...this.recordErrors],
     };
   }
 
+  /**
+   * A path as the pathFormat option reports it
+   */
+  private formatPath(path: string[]): FormattedPath<F> {
+    return (this.options.pathFormat === 'pointer' ? toPointer(path) : path) as FormattedPath<F>;
+  }
+
+  /**
+   * Copy of a list of errors, recoveries or repairs with paths as the
+   * pathFormat option reports them
+   */
+  private formatPaths<E extends { path: string[] }>(entries: E[]): Array<Omit<E, 'path'> & { path: FormattedPath<F> }> {
+    return entries.map(entry => ({ ...entry, path: this.formatPath(entry.path) }));
+  }
+
+  /**
+   * Key of a path in completedFields, pendingFields and partialFields
+   */
+  private fieldKey(path: string[]): string {
+    return this.options.pathFormat === 'pointer' ? toPointer(path) : path.join('.');
+  }
+
+  private takePatch(): JSONPatchOperation[] {
+    const patch = this.patch;
+    this.patch = [];
+    return patch;
+  }
+
+  /**
+   * The parsed value as callers see it: the copy-on-write view when immutable
+   */
+  private resultValue(): InferSchemaType<T> {
+    return (this.options.immutable ? this.view : this.result) as InferSchemaType<T>;
+  }
+
   private getCurrentData(): unknown {
+    if (this.options.immutable) {
+      return this.view;
+    }
+
     if (this.stack.length === 0) {
       return this.result;
     }
@@ -709,26 +1568,26 @@ export class StreamingJSONParser<T extends JSONSchema = JSONSchema> implements S
 /**
  * Create a new streaming JSON parser
  */
-export function createStreamParser<T extends JSONSchema>(
+export function createStreamParser<T extends JSONSchema, F extends PathFormat = 'segments'>(
   schema?: T,
-  options?: Omit<ParserOptions<T>, 'schema'>
-): StreamingJSONParser<T> {
-  return new StreamingJSONParser<T>({
+  options?: Omit<ParserOptions<T, F>, 'schema'>
+): StreamingJSONParser<T, F> {
+  return new StreamingJSONParser<T, F>({
     ...options,
     schema,
-  } as ParserOptions<T>);
+  } as ParserOptions<T, F>);
 }
 
 /**
  * Create a parser optimized for LLM output
  */
-export function createLLMParser<T extends JSONSchema>(
+export function createLLMParser<T extends JSONSchema, F extends PathFormat = 'segments'>(
   schema?: T,
-  options?: Omit<ParserOptions<T>, 'schema' | 'llmMode'>
-): StreamingJSONParser<T> {
-  return new StreamingJSONParser<T>({
+  options?: Omit<ParserOptions<T, F>, 'schema' | 'llmMode'>
+): StreamingJSONParser<T, F> {
+  return new StreamingJSONParser<T, F>({
     ...options,
     schema,
     llmMode: true,
-  } as ParserOptions<T>);
+  } as ParserOptions<T, F>);
 }
@@ -0,0 +1,87 @@
+import { JSONPatchOperation } from './types.js';
+import { parsePointer } from './pointer.js';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Deep copy of the arrays and plain objects in a value. Anything else, such
+ * as a BigInt or a numberMode class instance, is shared.
+ */
+export function snapshot(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(snapshot);
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = snapshot(item);
+    }
+    return copy;
+  }
+  return value;
+}
+
+/**
+ * Copy-on-write assignment: returns a new root in which only the containers
+ * along path are copied, so every other subtree keeps its identity
+ */
+export function assignIn(root: unknown, path: string[], value: unknown, depth = 0): unknown {
+  const key = path[depth];
+  if (key === undefined) {
+    return value;
+  }
+
+  if (Array.isArray(root)) {
+    const index = Number(key);
+    const copy = root.slice();
+    copy[index] = assignIn(root[index], path, value, depth + 1);
+    return copy;
+  }
+
+  const entries = root as Record<string, unknown>;
+  return { ...entries, [key]: assignIn(entries[key], path, value, depth + 1) };
+}
+
+/**
+ * Apply the add and replace operations from ParseResult.patch to a document
+ * and return the updated document. Containers are updated in place; values
+ * are copied, so the same operations can be applied to several documents.
+ */
+export function applyPatch<T = unknown>(document: unknown, operations: JSONPatchOperation[]): T {
+  let root = document;
+
+  for (const { op, path, value } of operations) {
+    if (op !== 'add' && op !== 'replace') {
+      throw new Error(`Unsupported JSON Patch operation: ${String(op)}`);
+    }
+
+    const segments = parsePointer(path);
+    const key = segments.pop();
+    if (key === undefined) {
+      root = snapshot(value);
+      continue;
+    }
+
+    let target: unknown = root;
+    for (const segment of segments) {
+      target = Array.isArray(target) ? target[Number(segment)] : (target as Record<string, unknown> | undefined)?.[segment];
+    }
+
+    if (Array.isArray(target)) {
+      const index = key === '-' ? target.length : Number(key);
+      if (!Number.isInteger(index) || index < 0 || index > target.length) {
+        throw new Error(`Invalid array index in JSON Patch path: ${path}`);
+      }
+      // add inserts before the index; replace overwrites it
+      target.splice(index, op === 'add' ? 0 : 1, snapshot(value));
+    } else if (target !== null && typeof target === 'object') {
+      (target as Record<string, unknown>)[key] = snapshot(value);
+    } else {
+      throw new Error(`JSON Patch path does not exist: ${path}`);
+    }
+  }
+
+  return root as T;
+}
@@ -0,0 +1,62 @@
+import { ParserEvents } from './types.js';
+
+/**
+ * Format path segments as an RFC 6901 JSON Pointer. The root is the empty
+ * string.
+ */
+export function toPointer(path: string[]): string {
+  return path.map(segment => '/' + segment.replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+/**
+ * Split an RFC 6901 JSON Pointer into unescaped path segments
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/') || /~(?![01])/.test(pointer)) {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  }
+  return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Copy of a validation error, recovery or repair with its path as a JSON
+ * Pointer
+ */
+export function withPointer<E extends { path: string[] }>(entry: E): Omit<E, 'path'> & { path: string } {
+  return { ...entry, path: toPointer(entry.path) };
+}
+
+/**
+ * Adapt events written for pathFormat: 'pointer' to the segment paths the
+ * parser works with
+ */
+export function pointerEvents<T>(events: ParserEvents<T, string>): ParserEvents<T> {
+  const {
+    onPartialObject, onCompleteField, onValidationError, onDocument, onValueStart, onValue, onKey,
+    onObjectStart, onObjectEnd, onArrayStart, onArrayEnd, onStringDelta, onArrayItem, onRecovery,
+  } = events;
+
+  return {
+    onComplete: events.onComplete,
+    onRecordError: events.onRecordError,
+    onError: events.onError,
+    onPartialObject: onPartialObject && ((data, path) => onPartialObject(data, toPointer(path))),
+    onCompleteField: onCompleteField && ((field, value, path) => onCompleteField(field, value, toPointer(path))),
+    onValidationError: onValidationError && (error => onValidationError(withPointer(error))),
+    onDocument: onDocument && ((value, index, errors) => onDocument(value, index, errors.map(withPointer))),
+    onValueStart: onValueStart && ((path, location) => onValueStart(toPointer(path), location)),
+    onValue: onValue && ((value, path, location) => onValue(value, toPointer(path), location)),
+    onKey: onKey && ((key, path, location) => onKey(key, toPointer(path), location)),
+    onObjectStart: onObjectStart && ((path, location) => onObjectStart(toPointer(path), location)),
+    onObjectEnd: onObjectEnd && ((value, path, location) => onObjectEnd(value, toPointer(path), location)),
+    onArrayStart: onArrayStart && ((path, location) => onArrayStart(toPointer(path), location)),
+    onArrayEnd: onArrayEnd && ((value, path, location) => onArrayEnd(value, toPointer(path), location)),
+    onStringDelta: onStringDelta &&
+      ((path, delta, soFar, final, isKey) => onStringDelta(toPointer(path), delta, soFar, final, isKey)),
+    onArrayItem: onArrayItem && ((item, index, path) => onArrayItem(item, index, toPointer(path))),
+    onRecovery: onRecovery && (recovery => onRecovery(withPointer(recovery))),
+  };
+}
@@ -1,52 +1,214 @@
-import { Token, TokenType } from './types.js';
+import { JSONDialect, LocatedRecovery, NumberMode, SkippedText, SourceLocation, StreamChunk, Token, TokenRecovery, TokenType } from './types.js';
+import { JSONExtractor } from './extractor.js';
 
 interface TokenizerOptions {
   allowTrailingCommas?: boolean;
   allowUnquotedKeys?: boolean;
   allowSingleQuotes?: boolean;
   llmMode?: boolean;
+  /** Input dialect; 'json5' adds comments, extended numbers and line continuations */
+  dialect?: JSONDialect;
+  /** How to handle lone or mismatched UTF-16 surrogates in \u escapes (default: 'replace') */
+  unpairedSurrogates?: 'replace' | 'error';
+  /** Skip prose and markdown fences around the first object or array */
+  extractJSON?: boolean;
+  /** Representation of number token values (default: 'number') */
+  numberMode?: NumberMode;
+  /** Reject anything RFC 8259 forbids: malformed numbers, raw control characters, bad escapes */
+  strict?: boolean;
+  /** Treat 0x1E as an RFC 7464 record separator that ends whatever value is open */
+  recordSeparators?: boolean;
 }
 
 interface TokenizerState {
   buffer: string;
   position: number;
-  inString: boolean;
-  stringQuote: '"' | "'" | null;
-  escapeNext: boolean;
-  currentToken: string;
+  /** String, number or unquoted value whose scan was interrupted by the end of the buffer */
+  scan: PendingScan | null;
+  bytesProcessed: number;
+  charactersProcessed: number;
+  /** Absolute offset of buffer[0] in the whole input */
+  offset: number;
+  /** Line and column of buffer[0] */
+  line: number;
+  column: number;
+  /** Input immediately preceding buffer[0], kept for error excerpts */
+  context: string;
+  /** Open containers, innermost last, used to tell keys from values after a comma */
+  containers: Array<'object' | 'array'>;
+}
+
+/**
+ * Progress of a string, number or unquoted value that spans several chunks.
+ * The consumed source is dropped from the buffer and only its raw text and
+ * decoded prefix are kept, so each character is scanned once however many
+ * feeds it takes.
+ */
+interface PendingScan {
+  kind: 'string' | 'number' | 'word';
+  /** Opening quote for strings */
+  quote: '"' | "'" | null;
+  /** The string opened with a typographic quote, so one may also close it */
+  smart?: boolean;
+  /** Where the token starts */
+  location: SourceLocation;
+  /** Source text consumed so far */
+  raw: string;
+  /** Decoded string content so far */
+  value: string;
+  /** Decoded content not yet handed out by takeStringDelta */
+  delta: string;
+  /** Escape errors, reported when the string closes */
+  errors: Token[];
+  /** LLM-mode substitutions, reported with the completed token */
+  recoveries: LocatedRecovery[];
+}
+
+/**
+ * Line/column bookkeeping for an index into the current buffer
+ */
+interface LocationCursor {
+  index: number;
+  line: number;
+  column: number;
 }
 
 const WHITESPACE = /\s/;
+const JSON_WHITESPACE = /[ \t\n\r]/;
+const JSON_ESCAPES = '"\\/bfnrt';
+const RECORD_SEPARATOR = '\u001E';
+// Typographic and fullwidth quotes that LLM mode reads as string delimiters
+const SMART_DOUBLE_QUOTES = '\u201C\u201D\u201E\u201F\uFF02';
+const SMART_SINGLE_QUOTES = '\u2018\u2019\u201A\u201B\uFF07';
+const FULLWIDTH_PUNCTUATION: Record<string, ':' | ','> = { '\uFF1A': ':', '\uFF0C': ',' };
+// What may follow a quote that really closes a string
+const CLOSING_CONTEXT = /[,:}\]\uFF0C\uFF1A]/;
+// Characters that start a value after a string with a missing comma
+const VALUE_START = /[-0-9{[]/;
 const NUMBER_START = /[-0-9]/;
 const NUMBER_CHAR = /[-+0-9.eE]/;
+const JSON5_NUMBER_START = /[-+0-9.]/;
+const JSON5_NUMBER_CHAR = /[-+0-9a-zA-Z.]/;
+const INTEGER_LEXEME = /^[-+]?(?:\d+|0[xX][0-9a-fA-F]+)$/;
+const JSON5_NUMBER = /^[-+]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)$/;
 const UNQUOTED_KEY_CHAR = /[a-zA-Z0-9_$]/;
+const BARE_WORD_START = /[\p{L}_$]/u;
+// Characters that end an unquoted string value
+const BARE_WORD_END = /[,}\]\n\r{["]/;
+const HEX_QUAD = /^[0-9a-fA-F]{4}$/;
+const REPLACEMENT_CHAR = '\uFFFD';
+/** Characters of surrounding input shown on either side of an error */
+const EXCERPT_CONTEXT = 40;
+
+interface KeywordInfo {
+  type: TokenType;
+  value: boolean | null;
+  /** Set for non-JSON literals that LLM mode maps to a JSON value */
+  recovery?: TokenRecovery;
+}
+
+const JSON_KEYWORDS: Record<string, KeywordInfo> = {
+  true: { type: TokenType.Boolean, value: true },
+  false: { type: TokenType.Boolean, value: false },
+  null: { type: TokenType.Null, value: null },
+};
+
+/**
+ * Python and JavaScript literals that models emit in place of JSON keywords
+ */
+const LLM_LITERALS: Record<string, KeywordInfo> = {
+  True: {
+    type: TokenType.Boolean,
+    value: true,
+    recovery: { kind: 'python-literal', message: 'Replaced Python literal True with true' },
+  },
+  False: {
+    type: TokenType.Boolean,
+    value: false,
+    recovery: { kind: 'python-literal', message: 'Replaced Python literal False with false' },
+  },
+  None: {
+    type: TokenType.Null,
+    value: null,
+    recovery: { kind: 'python-literal', message: 'Replaced Python literal None with null' },
+  },
+  undefined: {
+    type: TokenType.Null,
+    value: null,
+    recovery: { kind: 'undefined-literal', message: 'Replaced undefined with null' },
+  },
+};
+
+/**
+ * Result of decoding one escape sequence: the decoded text and the number of
+ * source characters consumed, an error, or null when more input is needed
+ */
+type EscapeResult =
+  | { value: string; length: number; error?: undefined }
+  | { error: string; length: number; value?: undefined }
+  | null;
 
 export class StreamingTokenizer {
   private options: TokenizerOptions;
   private state: TokenizerState;
   private tokens: Token[];
   private expectingKey: boolean;
+  private keywords: Record<string, KeywordInfo>;
+  private extractor: JSONExtractor | null;
+  private decoder: InstanceType<typeof TextDecoder>;
+  private decodingBytes: boolean;
+  private cursor: LocationCursor;
+  private ended: boolean;
+  private whitespace: RegExp;
+  /** Whether a separator cut off a token in the current record */
+  private recordCut: boolean;
+  /** LLM-mode fixes that produced no token, reported with the next one */
+  private pendingRecoveries: LocatedRecovery[];
+  /** The last token was a colon, so a word is a value even if a colon follows */
+  private afterColon: boolean;
 
   constructor(options: TokenizerOptions = {}) {
+    // LLM mode and JSON5 both imply the relaxed syntax options
+    const relaxed = options.llmMode === true || options.dialect === 'json5';
     this.options = {
-      allowTrailingCommas: options.llmMode ?? options.allowTrailingCommas ?? false,
-      allowUnquotedKeys: options.llmMode ?? options.allowUnquotedKeys ?? false,
-      allowSingleQuotes: options.llmMode ?? options.allowSingleQuotes ?? false,
+      allowTrailingCommas: relaxed || (options.allowTrailingCommas ?? false),
+      allowUnquotedKeys: relaxed || (options.allowUnquotedKeys ?? false),
+      allowSingleQuotes: relaxed || (options.allowSingleQuotes ?? false),
       llmMode: options.llmMode ?? false,
+      dialect: options.dialect ?? 'json',
+      unpairedSurrogates: options.unpairedSurrogates ?? 'replace',
+      extractJSON: options.extractJSON ?? false,
+      numberMode: options.numberMode ?? 'number',
+      strict: options.strict ?? false,
+      recordSeparators: options.recordSeparators ?? false,
     };
     this.state = this.createInitialState();
     this.tokens = [];
     this.expectingKey = false;
+    this.keywords = this.options.llmMode ? { ...JSON_KEYWORDS, ...LLM_LITERALS } : JSON_KEYWORDS;
+    this.extractor = this.options.extractJSON ? new JSONExtractor() : null;
+    this.decoder = new TextDecoder('utf-8');
+    this.decodingBytes = false;
+    this.cursor = { index: 0, line: 1, column: 1 };
+    this.ended = false;
+    this.whitespace = this.options.strict ? JSON_WHITESPACE : WHITESPACE;
+    this.recordCut = false;
+    this.pendingRecoveries = [];
+    this.afterColon = false;
   }
 
   private createInitialState(): TokenizerState {
     return {
       buffer: '',
       position: 0,
-      inString: false,
-      stringQuote: null,
-      escapeNext: false,
-      currentToken: '',
+      scan: null,
+      bytesProcessed: 0,
+      charactersProcessed: 0,
+      offset: 0,
+      line: 1,
+      column: 1,
+      context: '',
+      containers: [],
     };
   }
 
@@ -54,16 +216,84 @@ export class StreamingTokenizer {
     this.state = this.createInitialState();
     this.tokens = [];
     this.expectingKey = false;
+    this.decoder = new TextDecoder('utf-8');
+    this.decodingBytes = false;
+    this.cursor = { index: 0, line: 1, column: 1 };
+    this.ended = false;
+    this.recordCut = false;
+    this.pendingRecoveries = [];
+    this.afterColon = false;
+    this.extractor?.reset();
   }
 
   setExpectingKey(expecting: boolean): void {
     this.expectingKey = expecting;
   }
 
-  feed(chunk: string): Token[] {
-    this.state.buffer += chunk;
+  /** Number of UTF-8 bytes fed so far */
+  getBytesProcessed(): number {
+    return this.state.bytesProcessed;
+  }
+
+  /** Number of decoded characters (UTF-16 code units) fed so far */
+  getCharactersProcessed(): number {
+    return this.state.charactersProcessed;
+  }
+
+  /**
+   * Text skipped around the JSON value when extractJSON is enabled
+   */
+  getSkippedText(): SkippedText {
+    return this.extractor?.getSkippedText() ?? { before: '', after: '' };
+  }
+
+  /**
+   * Location of the end of the input consumed so far
+   */
+  getLocation(): SourceLocation {
+    return this.locate(this.state.position);
+  }
+
+  /**
+   * Render the input line around an absolute offset with a caret under it.
+   * Covers the input consumed by the latest feed plus a little before it.
+   */
+  getSourceExcerpt(offset: number): string {
+    const text = this.state.context + this.state.buffer;
+    const base = this.state.offset - this.state.context.length;
+    const target = Math.min(Math.max(offset - base, 0), text.length);
+
+    let start = text.lastIndexOf('\n', target - 1) + 1;
+    let end = text.indexOf('\n', target);
+    if (end === -1) end = text.length;
+
+    const prefix = start < target - EXCERPT_CONTEXT ? '...' : '';
+    const suffix = end > target + EXCERPT_CONTEXT ? '...' : '';
+    start = Math.max(start, target - EXCERPT_CONTEXT);
+    end = Math.min(end, target + EXCERPT_CONTEXT);
+
+    const line = (prefix + text.slice(start, end) + suffix).replace(/[\t\r]/g, ' ');
+    const caret = ' '.repeat(prefix.length + target - start) + '^';
+    return `${line}\n${caret}`;
+  }
+
+  feed(chunk: StreamChunk): Token[] {
+    // Text consumed by the previous feed is only dropped now, so errors the
+    // parser raises for those tokens can still quote it
+    this.compactBuffer();
+
+    let text = this.decodeChunk(chunk);
+    this.state.charactersProcessed += text.length;
     this.tokens = [];
 
+    if (this.extractor) {
+      const { skipped, json } = this.extractor.feed(text);
+      this.skipText(skipped);
+      text = json;
+    }
+
+    this.state.buffer += text;
+
     while (this.state.position < this.state.buffer.length) {
       const processed = this.processNextToken();
       if (!processed) {
@@ -72,121 +302,249 @@ export class StreamingTokenizer {
       }
     }
 
-    // Trim processed data from buffer, keeping any partial data
-    if (this.state.position > 0) {
-      this.state.buffer = this.state.buffer.slice(this.state.position);
-      this.state.position = 0;
+    return this.tokens;
+  }
+
+  /**
+   * Signal the end of input. Numbers, unquoted keys and values, and line
+   * comments that were waiting for a terminator are flushed; an unterminated string or
+   * keyword prefix stays pending for the caller to report as truncation.
+   */
+  end(): Token[] {
+    this.compactBuffer();
+    this.tokens = [];
+    this.ended = true;
+
+    // Flush an incomplete UTF-8 sequence as U+FFFD
+    let text = this.decodingBytes ? this.decoder.decode() : '';
+    this.decodingBytes = false;
+    this.state.charactersProcessed += text.length;
+    if (this.extractor && text) {
+      const { skipped, json } = this.extractor.feed(text);
+      this.skipText(skipped);
+      text = json;
+    }
+    this.state.buffer += text;
+
+    while (this.state.position < this.state.buffer.length || (this.state.scan && this.state.scan.kind !== 'string')) {
+      if (!this.processNextToken()) {
+        break;
+      }
     }
 
     return this.tokens;
   }
 
+  /**
+   * The longest number at the start of a partial number lexeme, such as 1
+   * for "1."
+   */
+  numberPrefix(raw: string): string {
+    return raw.replace(/(?:\.|[eE][+-]?|[+-])$/, '');
+  }
+
+  /**
+   * Value of the longest number at the start of a partial number lexeme,
+   * converted per numberMode; undefined if there is none
+   */
+  convertPartialNumber(raw: string): unknown {
+    const prefix = this.numberPrefix(raw);
+    const value = prefix ? this.parseNumber(prefix) : null;
+    return value === null ? undefined : this.convertNumber(prefix, value);
+  }
+
+  /**
+   * Fixes not yet attached to a token, such as characters skipped at the end
+   * of the input
+   */
+  takeRecoveries(): LocatedRecovery[] {
+    const recoveries = this.pendingRecoveries;
+    this.pendingRecoveries = [];
+    return recoveries;
+  }
+
+  /**
+   * The first keyword a partial keyword could still become, such as true for
+   * "tr", or null if there is none
+   */
+  completeKeyword(prefix: string): { keyword: string; type: TokenType; value: boolean | null } | null {
+    for (const [keyword, info] of Object.entries(this.keywords)) {
+      if (keyword.startsWith(prefix)) {
+        return { keyword, type: info.type, value: info.value };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether the partial token is a quoted string, rather than a keyword or
+   * unquoted key that may still turn out to be something else
+   */
+  isInString(): boolean {
+    return this.state.scan?.kind === 'string';
+  }
+
+  /**
+   * Text the pending string decoded since the last call, so a caller can
+   * render it incrementally without slicing the whole value on every chunk
+   */
+  takeStringDelta(): string {
+    const { scan } = this.state;
+    if (scan?.kind !== 'string') {
+      return '';
+    }
+    const delta = scan.delta;
+    scan.delta = '';
+    return delta;
+  }
+
   /**
    * Get any partial token from remaining buffer
    */
   getPartialToken(): Token | null {
-    const remaining = this.state.buffer.trim();
-    if (!remaining) return null;
+    const { scan } = this.state;
 
     // Check for partial string
-    const startsWithQuote = remaining.startsWith('"') || (this.options.allowSingleQuotes && remaining.startsWith("'"));
-    if (this.state.inString || startsWithQuote) {
-      // Strip the opening quote from the content
-      const content = startsWithQuote ? remaining.slice(1) : remaining;
-
-      return {
-        type: this.expectingKey ? TokenType.PartialKey : TokenType.PartialString,
-        value: this.unescapeString(content),
-        raw: remaining,
-        position: this.state.position,
-        isPartial: true,
-      };
+    if (scan?.kind === 'string') {
+      return this.createTokenAt(
+        this.expectingKey ? TokenType.PartialKey : TokenType.PartialString,
+        scan.value,
+        scan.raw,
+        scan.location,
+        true
+      );
     }
 
     // Check for partial number
-    if (NUMBER_START.test(remaining[0] ?? '')) {
-      return {
-        type: TokenType.PartialNumber,
-        value: remaining,
-        raw: remaining,
-        position: this.state.position,
-        isPartial: true,
-      };
-    }
-
-    // Check for partial keyword (true, false, null)
-    if (/^(t(r(u(e)?)?)?|f(a(l(s(e)?)?)?)?|n(u(l(l)?)?)?)$/i.test(remaining)) {
-      return {
-        type: TokenType.PartialString, // Will be resolved to boolean/null when complete
-        value: remaining,
-        raw: remaining,
-        position: this.state.position,
-        isPartial: true,
-      };
+    if (scan?.kind === 'number') {
+      return this.createTokenAt(TokenType.PartialNumber, scan.raw, scan.raw, scan.location, true);
+    }
+
+    const pending = this.state.buffer.slice(this.state.position);
+    const remaining = pending.trimStart();
+    if (!remaining) return null;
+    const position = this.state.position + pending.length - remaining.length;
+
+    // Check for partial keyword (true, false, null, or an LLM-mode literal such as Tru)
+    if (Object.keys(this.keywords).some(keyword => keyword.length > remaining.length && keyword.startsWith(remaining))) {
+      // Will be resolved to boolean/null when complete
+      return this.createToken(TokenType.PartialString, remaining, remaining, position, true);
     }
 
     // Check for partial unquoted key in LLM mode
     if (this.options.allowUnquotedKeys && this.expectingKey && UNQUOTED_KEY_CHAR.test(remaining[0] ?? '')) {
-      return {
-        type: TokenType.PartialKey,
-        value: remaining,
-        raw: remaining,
-        position: this.state.position,
-        isPartial: true,
-      };
+      return this.createToken(TokenType.PartialKey, remaining, remaining, position, true);
     }
 
     return null;
   }
 
+  /**
+   * Decode a chunk to text. Byte chunks go through a streaming UTF-8 decoder,
+   * which holds back a code point split across chunks until it is complete.
+   */
+  private decodeChunk(chunk: StreamChunk): string {
+    if (typeof chunk === 'string') {
+      this.state.bytesProcessed += utf8ByteLength(chunk);
+      if (!this.decodingBytes) return chunk;
+
+      // Switching back to text: flush any incomplete sequence as U+FFFD
+      this.decodingBytes = false;
+      return this.decoder.decode() + chunk;
+    }
+
+    const bytes = chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk);
+    this.state.bytesProcessed += bytes.byteLength;
+    this.decodingBytes = true;
+    return this.decoder.decode(bytes, { stream: true });
+  }
+
   private processNextToken(): boolean {
+    // Resume a string, number or unquoted value cut off by the previous chunk
+    const { scan } = this.state;
+    if (scan) {
+      switch (scan.kind) {
+        case 'string': return this.scanString(scan);
+        case 'number': return this.scanNumber(scan);
+        case 'word': return this.scanBareWord(scan);
+      }
+    }
+
     this.skipWhitespace();
 
     if (this.state.position >= this.state.buffer.length) {
       return false;
     }
 
-    const char = this.state.buffer[this.state.position];
-    if (char === undefined) return false;
+    const raw = this.state.buffer[this.state.position];
+    if (raw === undefined) return false;
     const startPos = this.state.position;
 
+    // LLM mode reads fullwidth colons and commas as their ASCII counterparts
+    let char = raw;
+    let recovery: TokenRecovery | undefined;
+    const ascii = this.options.llmMode ? FULLWIDTH_PUNCTUATION[raw] : undefined;
+    if (ascii) {
+      char = ascii;
+      recovery = { kind: 'fullwidth-punctuation', message: `Replaced fullwidth ${raw} with ${ascii}` };
+    }
+
+    if (char === RECORD_SEPARATOR && this.options.recordSeparators) {
+      return this.processRecordSeparator();
+    }
+
+    if (char === '/' && this.isJSON5()) {
+      return this.processComment();
+    }
+
+    if (char === '`' && this.extractor) {
+      return this.processFence();
+    }
+
     // Structural characters
     switch (char) {
       case '{':
         this.state.position++;
         this.pushToken(TokenType.ObjectStart, null, char, startPos);
+        this.state.containers.push('object');
         this.expectingKey = true;
         return true;
 
       case '}':
         this.state.position++;
         this.pushToken(TokenType.ObjectEnd, null, char, startPos);
+        this.state.containers.pop();
         this.expectingKey = false;
+        this.checkExtractionEnd();
         return true;
 
       case '[':
         this.state.position++;
         this.pushToken(TokenType.ArrayStart, null, char, startPos);
+        this.state.containers.push('array');
         this.expectingKey = false;
         return true;
 
       case ']':
         this.state.position++;
         this.pushToken(TokenType.ArrayEnd, null, char, startPos);
+        this.state.containers.pop();
         this.expectingKey = false;
+        this.checkExtractionEnd();
         return true;
 
       case ':':
         this.state.position++;
-        this.pushToken(TokenType.Colon, null, char, startPos);
+        this.pushToken(TokenType.Colon, null, raw, startPos, recovery);
         this.expectingKey = false;
         return true;
 
       case ',':
         this.state.position++;
-        this.pushToken(TokenType.Comma, null, char, startPos);
-        // After comma in object, expect key; after comma in array, expect value
-        // This is managed by the parser
+        this.pushToken(TokenType.Comma, null, raw, startPos, recovery);
+        // After comma in object, expect key; after comma in array, expect value.
+        // The parser may still override this through setExpectingKey.
+        this.expectingKey = this.state.containers[this.state.containers.length - 1] === 'object';
         return true;
 
       case '"':
@@ -195,28 +553,52 @@ export class StreamingTokenizer {
           this.pushErrorToken(`Unexpected character: ${char}`, startPos);
           return true;
         }
+        if (char === "'" && this.repairsRelaxedSyntax()) {
+          return this.processString(char, { kind: 'single-quote', message: 'Replaced single quotes with double quotes' });
+        }
         return this.processString(char);
 
       default:
         // Check for number
-        if (NUMBER_START.test(char)) {
+        if (this.isNumberStart(char)) {
           return this.processNumber();
         }
 
-        // Check for keywords (true, false, null)
-        if (char === 't' || char === 'f' || char === 'n') {
+        // Check for keywords (true, false, null, plus Python/JS literals in LLM mode)
+        if (this.isKeywordStart(char)) {
           return this.processKeyword();
         }
 
+        // JSON5 Infinity and NaN are lexed as numbers
+        if (this.isJSON5InfinityOrNaN(char)) {
+          return this.processNumber();
+        }
+
         // Check for unquoted key in LLM mode
         if (this.options.allowUnquotedKeys && this.expectingKey && UNQUOTED_KEY_CHAR.test(char)) {
           return this.processUnquotedKey();
         }
 
+        // Typographic quotes delimit strings in LLM mode
+        if (this.options.llmMode) {
+          const quote = smartQuoteClass(char);
+          if (quote) {
+            return this.processString(quote, {
+              kind: 'smart-quote',
+              message: `Replaced typographic quote ${char} with ${quote}`,
+            });
+          }
+        }
+
+        // Unquoted string value in LLM mode
+        if (this.isBareWordStart(char)) {
+          return this.processBareWord();
+        }
+
         // Unknown character
         if (this.options.llmMode) {
           // In LLM mode, skip unknown characters
-          this.state.position++;
+          this.skipCharacter();
           return true;
         }
 
@@ -225,138 +607,465 @@ export class StreamingTokenizer {
     }
   }
 
-  private processString(quote: '"' | "'"): boolean {
-    const startPos = this.state.position;
+  private processString(quote: '"' | "'", recovery?: TokenRecovery): boolean {
+    const location = this.locate(this.state.position);
+    const opening = this.state.buffer[this.state.position] ?? quote;
     this.state.position++; // Skip opening quote
 
-    let value = '';
-    let raw = quote;
-    let escaped = false;
+    const recoveries = recovery ? [{ ...recovery, ...location }] : [];
+    const smart = smartQuoteClass(opening) !== null;
+    return this.scanString({ kind: 'string', quote, smart, location, raw: opening, value: '', delta: '', errors: [], recoveries });
+  }
 
-    while (this.state.position < this.state.buffer.length) {
-      const char = this.state.buffer[this.state.position];
-      if (char === undefined) break;
-      raw += char;
+  /**
+   * Scan string content from the current position. When the buffer runs out
+   * the progress is saved in state.scan and the consumed input is released.
+   */
+  private scanString(scan: PendingScan): boolean {
+    const { buffer } = this.state;
+    const quoteCode = scan.quote === "'" ? 39 : 34;
+    // Control characters below U+0020 are rejected in strict mode, reported
+    // as repairs in LLM mode, and may be a record separator in json-seq
+    const llmMode = this.options.llmMode === true;
+    const controlLimit = this.options.strict || llmMode || this.options.recordSeparators ? 0x20 : 0;
+    const start = this.state.position;
+    let i = start;
+    // Text decoded in this call, added to the scan once it stops
+    let decoded = '';
+
+    while (i < buffer.length) {
+      // Copy plain characters in one slice
+      let j = i;
+      while (j < buffer.length) {
+        const code = buffer.charCodeAt(j);
+        if (code === quoteCode || code === 92 || code < controlLimit) break;
+        if (llmMode && isSmartQuoteCode(code)) break;
+        j++;
+      }
+      decoded += buffer.slice(i, j);
+      i = j;
+      if (i >= buffer.length) break;
+
+      const code = buffer.charCodeAt(i);
+      if (code < controlLimit) {
+        if (code === 0x1e && this.options.recordSeparators) {
+          // A separator inside a string means the record was truncated
+          this.abandonRecordToken(i);
+          return true;
+        }
 
-      if (escaped) {
-        value += this.getEscapedChar(char);
-        escaped = false;
-        this.state.position++;
+        const name = `U+${code.toString(16).toUpperCase().padStart(4, '0')}`;
+        if (llmMode) {
+          scan.recoveries.push({
+            kind: 'unescaped-control-character',
+            message: `Kept unescaped control character ${name} in string`,
+            ...this.locate(i),
+          });
+        } else if (this.options.strict) {
+          scan.errors.push(this.createToken(TokenType.Error, `Unescaped control character ${name} in string`, buffer[i] ?? '', i, false));
+        }
+        decoded += buffer[i];
+        i++;
         continue;
       }
 
-      if (char === '\\') {
-        escaped = true;
-        this.state.position++;
+      if (code === 92) {
+        const escape = this.readEscape(buffer, i);
+        if (!escape) {
+          // Escape sequence cut by the chunk boundary
+          break;
+        }
+        if (escape.error !== undefined) {
+          scan.errors.push(this.createToken(TokenType.Error, escape.error, buffer.slice(i, i + 6), i, false));
+          decoded += REPLACEMENT_CHAR;
+        } else {
+          decoded += escape.value;
+        }
+        i += escape.length;
         continue;
       }
 
-      if (char === quote) {
-        this.state.position++;
-        const tokenType = this.expectingKey ? TokenType.Key : TokenType.String;
-        this.pushToken(tokenType, value, raw, startPos);
-        if (tokenType === TokenType.Key) {
-          this.expectingKey = false;
+      if (code !== quoteCode) {
+        // A typographic quote only closes a string opened by one of its own
+        // kind, and only where a closing quote makes sense
+        const closes = scan.smart && smartQuoteClass(buffer[i] ?? '') === scan.quote
+          ? this.quoteClosesString(buffer, i + 1)
+          : false;
+        if (closes === null) break;
+        if (!closes) {
+          decoded += buffer[i];
+          i++;
+          continue;
+        }
+        scan.recoveries.push({
+          kind: 'smart-quote',
+          message: `Replaced typographic quote ${buffer[i]} with ${scan.quote}`,
+          ...this.locate(i),
+        });
+      } else if (llmMode && !this.expectingKey) {
+        // Models often leave quotes inside prose unescaped: keep the quote
+        // as content unless what follows it looks like the end of a string.
+        // Keys are short enough that a quote always ends them.
+        const closes = this.quoteClosesString(buffer, i + 1);
+        if (closes === null) break;
+        if (!closes) {
+          scan.recoveries.push({
+            kind: 'unescaped-quote',
+            message: `Kept unescaped ${scan.quote} inside string`,
+            ...this.locate(i),
+          });
+          decoded += buffer[i];
+          i++;
+          continue;
         }
-        return true;
       }
 
-      value += char;
-      this.state.position++;
+      // Closing quote
+      i++;
+      scan.value += decoded;
+      scan.raw += buffer.slice(start, i);
+      this.state.position = i;
+      this.state.scan = null;
+
+      // Escape errors are reported together with the completed string
+      for (const error of scan.errors) {
+        this.emit(error);
+      }
+      const tokenType = this.expectingKey ? TokenType.Key : TokenType.String;
+      const token = this.createTokenAt(tokenType, scan.value, scan.raw, scan.location, false);
+      if (scan.recoveries.length > 0) {
+        token.recoveries = scan.recoveries;
+      }
+      this.emit(token);
+      if (tokenType === TokenType.Key) {
+        this.expectingKey = false;
+      }
+      return true;
     }
 
-    // Incomplete string - need more data
-    this.state.position = startPos;
-    this.state.inString = true;
-    this.state.stringQuote = quote;
+    // Incomplete string - keep the decoded prefix and wait for more data
+    scan.value += decoded;
+    scan.delta += decoded;
+    scan.raw += buffer.slice(start, i);
+    this.state.position = i;
+    this.state.scan = scan;
     return false;
   }
 
-  private processNumber(): boolean {
+  /**
+   * Emit a record separator token. The lexing context starts over, since the
+   * next record is a fresh top-level value.
+   */
+  private processRecordSeparator(): boolean {
     const startPos = this.state.position;
-    let raw = '';
+    this.state.position++;
+    this.pushToken(TokenType.RecordSeparator, this.recordCut, RECORD_SEPARATOR, startPos);
+    this.recordCut = false;
+    this.state.containers = [];
+    this.expectingKey = false;
+    return true;
+  }
 
-    while (this.state.position < this.state.buffer.length) {
-      const char = this.state.buffer[this.state.position];
-      if (char === undefined) break;
+  /**
+   * Drop a token cut off by a record separator at index
+   */
+  private abandonRecordToken(index: number): void {
+    this.state.scan = null;
+    this.state.position = index;
+    this.recordCut = true;
+  }
 
-      if (!NUMBER_CHAR.test(char)) {
-        break;
-      }
-      raw += char;
-      this.state.position++;
+  /**
+   * Decide whether a quote ends the string from what follows it: a
+   * delimiter, or after a gap the start of another value or key (a missing
+   * comma). Ordinary words keep the quote as content. Returns null while
+   * the deciding characters have not arrived.
+   */
+  private quoteClosesString(buffer: string, index: number): boolean | null {
+    let i = index;
+    while (i < buffer.length && WHITESPACE.test(buffer[i] ?? '')) {
+      i++;
+    }
+    if (i >= buffer.length) {
+      return this.ended ? true : null;
     }
 
-    // If we're at end of buffer, the number might be incomplete
-    // Wait for more data unless we see a terminating character
-    if (this.state.position >= this.state.buffer.length) {
-      // Reset and wait for more data
-      this.state.position = startPos;
+    const next = buffer[i] ?? '';
+    if (CLOSING_CONTEXT.test(next)) {
+      return true;
+    }
+    if (i === index) {
+      return false;
+    }
+    if (next === '"' || next === "'" || smartQuoteClass(next) !== null || VALUE_START.test(next)) {
+      return true;
+    }
+    return this.startsKeyOrLiteral(buffer, i);
+  }
+
+  /**
+   * Whether the word at index is a literal or an unquoted key followed by
+   * a colon, rather than prose
+   */
+  private startsKeyOrLiteral(buffer: string, index: number): boolean | null {
+    let i = index;
+    while (i < buffer.length && UNQUOTED_KEY_CHAR.test(buffer[i] ?? '')) {
+      i++;
+    }
+    if (i >= buffer.length && !this.ended) {
+      return null;
+    }
+
+    const word = buffer.slice(index, i);
+    if (word === 'true' || word === 'false' || word === 'null') {
+      return true;
+    }
+    return this.unquotedKeyAt(buffer, index);
+  }
+
+  /**
+   * Whether the word at index is an unquoted key, that is followed by a
+   * colon. Returns null while that has not arrived.
+   */
+  private unquotedKeyAt(buffer: string, index: number): boolean | null {
+    let i = index;
+    while (i < buffer.length && UNQUOTED_KEY_CHAR.test(buffer[i] ?? '')) {
+      i++;
+    }
+    if (i === index) {
       return false;
     }
+    while (i < buffer.length && WHITESPACE.test(buffer[i] ?? '')) {
+      i++;
+    }
+    if (i >= buffer.length) {
+      return this.ended ? false : null;
+    }
+    return buffer[i] === ':';
+  }
+
+  private processNumber(): boolean {
+    const location = this.locate(this.state.position);
+    return this.scanNumber({ kind: 'number', quote: null, location, raw: '', value: '', delta: '', errors: [], recoveries: [] });
+  }
+
+  /**
+   * Scan number characters from the current position. The number is only
+   * judged once a terminating character arrives, so a literal split across
+   * chunks parses exactly as it would in one chunk.
+   */
+  private scanNumber(scan: PendingScan): boolean {
+    const { buffer } = this.state;
+    const numberChar = this.isJSON5() ? JSON5_NUMBER_CHAR : NUMBER_CHAR;
+    const start = this.state.position;
+    let i = start;
+
+    while (i < buffer.length && numberChar.test(buffer[i] ?? '')) {
+      i++;
+    }
+
+    scan.raw += buffer.slice(start, i);
+    this.state.position = i;
 
-    // Check if we have a complete number
-    // A number is incomplete if it ends with 'e', 'E', '.', '-', or '+'
-    const lastChar = raw[raw.length - 1];
-    if (lastChar !== undefined && /[eE.\-+]/.test(lastChar)) {
-      // Need more data
-      this.state.position = startPos;
+    if (i >= buffer.length && !this.ended) {
+      // Wait for a terminating character
+      this.state.scan = scan;
       return false;
     }
 
+    if (buffer[i] === RECORD_SEPARATOR && this.options.recordSeparators) {
+      // RFC 7464: a number not followed by whitespace may have been cut short
+      this.abandonRecordToken(i);
+      return true;
+    }
+
+    this.state.scan = null;
+    const invalid = this.options.strict ? findNumberError(scan.raw) : null;
+    if (invalid) {
+      // Point at the offending character; a number never spans lines
+      const { offset, line, column } = scan.location;
+      const location = { offset: offset + invalid.index, line, column: column + invalid.index };
+      this.emit(this.createTokenAt(TokenType.Error, `Invalid number ${scan.raw}: ${invalid.message}`, scan.raw, location, false));
+      return true;
+    }
+
+    const value = this.parseNumber(scan.raw);
+    if (value === null) {
+      this.emit(this.createTokenAt(TokenType.Error, `Invalid number: ${scan.raw}`, scan.raw, scan.location, false));
+      return true;
+    }
+
+    this.emit(this.createTokenAt(TokenType.Number, this.convertNumber(scan.raw, value), scan.raw, scan.location, false));
+    return true;
+  }
+
+  /**
+   * Apply the configured number mode to a valid number lexeme
+   */
+  private convertNumber(raw: string, value: number): unknown {
+    const mode = this.options.numberMode;
+    if (typeof mode === 'function') {
+      return mode(raw);
+    }
+
+    switch (mode) {
+      case 'string':
+        return raw;
+      case 'bigint':
+        // Only integers that a double cannot represent exactly become BigInt
+        if (Number.isSafeInteger(value) || !INTEGER_LEXEME.test(raw)) {
+          return value;
+        }
+        return raw.startsWith('-') ? -BigInt(raw.slice(1)) : BigInt(raw.replace(/^\+/, ''));
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Convert a complete number lexeme, or null if it is not a valid number.
+   * JSON5 adds hex literals, leading/trailing decimal points, explicit plus
+   * signs, Infinity and NaN.
+   */
+  private parseNumber(raw: string): number | null {
+    if (this.isJSON5()) {
+      return JSON5_NUMBER.test(raw) ? parseJSON5Number(raw) : null;
+    }
+
     const value = parseFloat(raw);
-    if (isNaN(value)) {
-      this.pushErrorToken(`Invalid number: ${raw}`, startPos);
+    return isNaN(value) ? null : value;
+  }
+
+  /**
+   * Skip a JSON5 // or /* comment. Returns false while the comment is still
+   * arriving so it is rescanned from its start on the next feed.
+   */
+  private processComment(): boolean {
+    const { buffer } = this.state;
+    const startPos = this.state.position;
+    const next = buffer[startPos + 1];
+
+    if (next === undefined) return false;
+    if (next !== '/' && next !== '*') {
+      this.pushErrorToken('Unexpected character: /', startPos);
+      return true;
+    }
+
+    const end = next === '/' ? buffer.indexOf('\n', startPos + 2) : buffer.indexOf('*/', startPos + 2);
+    const separator = this.options.recordSeparators ? buffer.indexOf(RECORD_SEPARATOR, startPos + 2) : -1;
+    if (separator !== -1 && (end === -1 || separator < end)) {
+      // A comment cut off by the next record
+      this.abandonRecordToken(separator);
+      return true;
+    }
+
+    if (next === '/') {
+      if (end === -1 && !this.ended) return false;
+      this.state.position = end === -1 ? buffer.length : end + 1;
       return true;
     }
 
-    this.pushToken(TokenType.Number, value, raw, startPos);
+    if (end === -1) return false;
+    this.state.position = end + 2;
     return true;
   }
 
+  /**
+   * A closing markdown fence outside any string ends the extracted JSON, even
+   * if the value is still open. Returns false while a fence may be arriving.
+   */
+  private processFence(): boolean {
+    const { buffer, position } = this.state;
+    const ticks = buffer.slice(position, position + 3);
+
+    if (ticks === '```') {
+      this.endExtraction(position);
+      return false;
+    }
+
+    if (/^`+$/.test(ticks) && position + ticks.length >= buffer.length && !this.ended) {
+      // Wait to see whether this is a fence
+      return false;
+    }
+
+    if (this.options.llmMode) {
+      this.skipCharacter();
+      return true;
+    }
+
+    this.pushErrorToken('Unexpected character: `', position);
+    return true;
+  }
+
+  /**
+   * Hand everything after the top-level value to the extractor once the
+   * outermost container closes
+   */
+  private checkExtractionEnd(): void {
+    if (this.extractor && this.state.containers.length === 0) {
+      this.endExtraction(this.state.position);
+    }
+  }
+
+  private endExtraction(index: number): void {
+    this.extractor?.end(this.state.buffer.slice(index));
+    this.state.buffer = this.state.buffer.slice(0, index);
+  }
+
   private processKeyword(): boolean {
     const startPos = this.state.position;
-    const keywords: Record<string, { type: TokenType; value: boolean | null }> = {
-      true: { type: TokenType.Boolean, value: true },
-      false: { type: TokenType.Boolean, value: false },
-      null: { type: TokenType.Null, value: null },
-    };
+    const { buffer } = this.state;
 
-    for (const [keyword, info] of Object.entries(keywords)) {
-      if (this.state.buffer.slice(this.state.position).startsWith(keyword)) {
+    for (const [keyword, info] of Object.entries(this.keywords)) {
+      if (buffer.startsWith(keyword, startPos)) {
         // Check that keyword is complete (followed by non-word char or end of buffer)
-        const nextCharPos = this.state.position + keyword.length;
-        if (nextCharPos < this.state.buffer.length) {
-          const nextChar = this.state.buffer[nextCharPos];
-          if (nextChar !== undefined && /[a-zA-Z0-9_]/.test(nextChar)) {
-            continue;
-          }
+        const nextChar = buffer[startPos + keyword.length];
+        if (nextChar !== undefined && /[a-zA-Z0-9_]/.test(nextChar)) {
+          continue;
         }
         // At end of buffer with exact keyword match is also valid
 
         this.state.position += keyword.length;
-        this.pushToken(info.type, info.value, keyword, startPos);
+        this.pushToken(info.type, info.value, keyword, startPos, info.recovery);
         return true;
       }
     }
 
-    // Check if it's a partial keyword (only if we're at end of buffer)
-    if (this.state.position + 4 >= this.state.buffer.length) {  // max keyword length is 5 (false)
-      for (const keyword of Object.keys(keywords)) {
-        const remaining = this.state.buffer.slice(this.state.position);
+    // Check if it's a partial keyword (only if we're at end of buffer or record)
+    let remaining = buffer.slice(startPos, startPos + 9); // Longest keyword is 9 chars (undefined)
+    const separator = this.options.recordSeparators ? remaining.indexOf(RECORD_SEPARATOR) : -1;
+    if (separator !== -1) {
+      remaining = remaining.slice(0, separator);
+    }
+    if (separator !== -1 || startPos + remaining.length >= buffer.length) {
+      for (const keyword of Object.keys(this.keywords)) {
         if (keyword.startsWith(remaining) && remaining.length < keyword.length) {
+          if (separator !== -1) {
+            this.abandonRecordToken(startPos + separator);
+            return true;
+          }
           // It's a partial keyword, need more data
           return false;
         }
       }
     }
 
+    // Not a keyword - in JSON5 it may still be Infinity or NaN
+    if (this.isJSON5InfinityOrNaN(buffer[startPos] ?? '')) {
+      return this.processNumber();
+    }
+
     // Not a valid keyword - in LLM mode, might be an unquoted key
     if (this.options.allowUnquotedKeys && this.expectingKey) {
       return this.processUnquotedKey();
     }
 
-    this.pushErrorToken(`Invalid keyword at position ${startPos}`, startPos);
+    // ...or an unquoted string value
+    if (this.isBareWordStart(buffer[startPos] ?? '')) {
+      return this.processBareWord();
+    }
+
+    this.pushErrorToken('Invalid keyword', startPos);
     return true;
   }
 
@@ -376,21 +1085,24 @@ export class StreamingTokenizer {
     }
 
     if (key.length > 0) {
+      const recovery: TokenRecovery | undefined = this.repairsRelaxedSyntax()
+        ? { kind: 'unquoted-key', message: `Quoted unquoted key ${key}` }
+        : undefined;
       // Check if we have a terminating character or end of buffer
       const nextChar = this.state.buffer[this.state.position];
       // If next char is colon or whitespace, key is complete
-      if (nextChar === ':' || nextChar === undefined || WHITESPACE.test(nextChar)) {
-        this.pushToken(TokenType.Key, key, key, startPos);
+      if (nextChar === ':' || (nextChar !== undefined && WHITESPACE.test(nextChar))) {
+        this.pushToken(TokenType.Key, key, key, startPos, recovery);
         this.expectingKey = false;
         return true;
       }
-      // If we're at end of buffer and no terminator, it might be incomplete
-      if (this.state.position >= this.state.buffer.length) {
+      // If we're at end of buffer and no terminator, the key may continue in the next chunk
+      if (this.state.position >= this.state.buffer.length && !this.ended) {
         this.state.position = startPos;
         return false;
       }
       // Otherwise it's a complete key
-      this.pushToken(TokenType.Key, key, key, startPos);
+      this.pushToken(TokenType.Key, key, key, startPos, recovery);
       this.expectingKey = false;
       return true;
     }
@@ -398,35 +1110,216 @@ export class StreamingTokenizer {
     return false;
   }
 
+  /**
+   * Read an unquoted value such as `in progress` as a string. It runs to the
+   * next , } ] or line break, minus trailing whitespace.
+   */
+  private processBareWord(): boolean {
+    const { buffer } = this.state;
+    const startPos = this.state.position;
+
+    // A key after a value with no comma between them
+    const inObject = this.state.containers[this.state.containers.length - 1] === 'object';
+    if (this.options.allowUnquotedKeys && inObject && !this.afterColon) {
+      const key = this.unquotedKeyAt(buffer, startPos);
+      if (key === null) {
+        return false;
+      }
+      if (key) {
+        this.expectingKey = true;
+        return this.processUnquotedKey();
+      }
+    }
+
+    const location = this.locate(startPos);
+    return this.scanBareWord({ kind: 'word', quote: null, location, raw: '', value: '', delta: '', errors: [], recoveries: [] });
+  }
+
+  /**
+   * Scan an unquoted value from the current position. Like a string, a word
+   * cut off by the end of the buffer is kept in state.scan and the consumed
+   * input released.
+   */
+  private scanBareWord(scan: PendingScan): boolean {
+    const { buffer } = this.state;
+    const separators = this.options.recordSeparators === true;
+    const start = this.state.position;
+    let end = start;
+
+    while (end < buffer.length && !BARE_WORD_END.test(buffer[end] ?? '') &&
+      !(separators && buffer[end] === RECORD_SEPARATOR)) {
+      end++;
+    }
+    scan.raw += buffer.slice(start, end);
+    this.state.position = end;
+
+    if (end >= buffer.length && !this.ended) {
+      // The word may continue in the next chunk
+      this.state.scan = scan;
+      return false;
+    }
+    if (end < buffer.length && buffer[end] === RECORD_SEPARATOR) {
+      // A value cut off by the next record
+      this.abandonRecordToken(end);
+      return true;
+    }
+
+    this.state.scan = null;
+    const word = scan.raw.trimEnd();
+    const token = this.createTokenAt(TokenType.String, word, word, scan.location, false);
+    token.recoveries = [{ kind: 'unquoted-string', message: `Read unquoted value ${word} as a string`, ...scan.location }];
+    this.emit(token);
+    return true;
+  }
+
+  /**
+   * Bare words are only read as values inside a container, so prose around
+   * a top-level value is still skipped
+   */
+  private isBareWordStart(char: string): boolean {
+    return this.options.llmMode === true && !this.expectingKey &&
+      this.state.containers.length > 0 && BARE_WORD_START.test(char);
+  }
+
+  private isJSON5(): boolean {
+    return this.options.dialect === 'json5';
+  }
+
+  /**
+   * LLM mode reports the relaxed syntax it accepts as fixes, except where
+   * the JSON5 dialect allows it
+   */
+  private repairsRelaxedSyntax(): boolean {
+    return this.options.llmMode === true && !this.isJSON5();
+  }
+
+  private isKeywordStart(char: string): boolean {
+    if (char === 't' || char === 'f' || char === 'n') return true;
+    // LLM literals are only recognised in value position; elsewhere they are unquoted keys
+    return this.options.llmMode === true && !this.expectingKey && /[TFNu]/.test(char);
+  }
+
+  private isJSON5InfinityOrNaN(char: string): boolean {
+    return this.isJSON5() && !this.expectingKey && (char === 'I' || char === 'N');
+  }
+
+  private isNumberStart(char: string): boolean {
+    return this.isJSON5() ? JSON5_NUMBER_START.test(char) : NUMBER_START.test(char);
+  }
+
   private skipWhitespace(): void {
     while (this.state.position < this.state.buffer.length) {
       const char = this.state.buffer[this.state.position];
-      if (char === undefined || !WHITESPACE.test(char)) {
+      if (char === undefined || !this.whitespace.test(char)) {
         break;
       }
       this.state.position++;
     }
   }
 
-  private pushToken(type: TokenType, value: unknown, raw: string, position: number): void {
-    this.tokens.push({
+  private pushToken(type: TokenType, value: unknown, raw: string, position: number, recovery?: TokenRecovery): void {
+    const token = this.createToken(type, value, raw, position, false);
+    if (recovery) {
+      token.recoveries = [{ ...recovery, offset: token.position, line: token.line, column: token.column }];
+    }
+    this.emit(token);
+  }
+
+  /**
+   * Queue a token, attaching any fixes that produced no token of their own
+   */
+  private emit(token: Token): void {
+    const pending = this.takeRecoveries();
+    if (pending.length > 0) {
+      token.recoveries = [...pending, ...(token.recoveries ?? [])];
+    }
+    this.tokens.push(token);
+    this.afterColon = token.type === TokenType.Colon;
+  }
+
+  /**
+   * Skip an unexpected character in LLM mode, reporting it with the next token
+   */
+  private skipCharacter(): void {
+    const index = this.state.position;
+    const char = this.state.buffer[index] ?? '';
+    this.pendingRecoveries.push({ kind: 'skipped-char', message: `Skipped unexpected character ${char}`, ...this.locate(index) });
+    this.state.position++;
+  }
+
+  private pushErrorToken(message: string, position: number): void {
+    this.emit(this.createToken(TokenType.Error, message, this.state.buffer[position] ?? '', position, false));
+    this.state.position++;
+  }
+
+  /**
+   * Build a token, translating a buffer index into an absolute source location
+   */
+  private createToken(type: TokenType, value: unknown, raw: string, index: number, isPartial: boolean): Token {
+    return this.createTokenAt(type, value, raw, this.locate(index), isPartial);
+  }
+
+  private createTokenAt(type: TokenType, value: unknown, raw: string, location: SourceLocation, isPartial: boolean): Token {
+    const { offset, line, column } = location;
+    return {
       type,
       value,
       raw,
-      position,
-      isPartial: false,
-    });
+      position: offset,
+      line,
+      column,
+      isPartial,
+    };
   }
 
-  private pushErrorToken(message: string, position: number): void {
-    this.tokens.push({
-      type: TokenType.Error,
-      value: message,
-      raw: this.state.buffer[position] ?? '',
-      position,
-      isPartial: false,
-    });
-    this.state.position++;
+  /**
+   * Resolve a buffer index to its absolute offset, line and column. Tokens are
+   * almost always located in increasing order, so the cursor only moves forward
+   * and each character is scanned once.
+   */
+  private locate(index: number): SourceLocation {
+    if (index < this.cursor.index) {
+      this.cursor = { index: 0, line: this.state.line, column: this.state.column };
+    }
+
+    const { line, column } = advanceLocation(this.state.buffer, this.cursor.index, index, this.cursor);
+    this.cursor = { index, line, column };
+
+    return { offset: this.state.offset + index, line, column };
+  }
+
+  /**
+   * Account for input the extractor dropped before the JSON value. Only called
+   * before any JSON has been buffered, so it just moves the buffer start.
+   */
+  private skipText(text: string): void {
+    if (!text) return;
+
+    const { line, column } = advanceLocation(text, 0, text.length, this.state);
+
+    this.state.context = (this.state.context + text).slice(-EXCERPT_CONTEXT);
+    this.state.offset += text.length;
+    this.state.line = line;
+    this.state.column = column;
+    this.cursor = { index: 0, line, column };
+  }
+
+  /**
+   * Drop consumed text from the buffer, keeping any partial data and a short
+   * tail of context for error excerpts
+   */
+  private compactBuffer(): void {
+    const consumed = this.state.position;
+    if (consumed === 0) return;
+
+    const { line, column } = this.locate(consumed);
+    this.state.context = (this.state.context + this.state.buffer.slice(0, consumed)).slice(-EXCERPT_CONTEXT);
+    this.state.buffer = this.state.buffer.slice(consumed);
+    this.state.offset += consumed;
+    this.state.line = line;
+    this.state.column = column;
+    this.state.position = 0;
+    this.cursor = { index: 0, line, column };
   }
 
   private getEscapedChar(char: string): string {
@@ -441,31 +1334,227 @@ export class StreamingTokenizer {
       case '"': return '"';
       case "'": return "'";
       default:
-        // Handle unicode escapes
-        if (char === 'u') {
-          // This is simplified; full implementation would look ahead
-          return char;
-        }
         return char;
     }
   }
 
-  private unescapeString(str: string): string {
-    let result = '';
-    let i = 0;
-    while (i < str.length) {
-      const char = str[i];
-      if (char === '\\' && i + 1 < str.length) {
-        const nextChar = str[i + 1];
-        if (nextChar !== undefined) {
-          result += this.getEscapedChar(nextChar);
-          i += 2;
-          continue;
+  /**
+   * Decode the escape sequence starting at str[start] (a backslash).
+   * Handles \uXXXX escapes including surrogate pairs; returns null when the
+   * sequence is cut off by the end of the available input.
+   */
+  private readEscape(str: string, start: number): EscapeResult {
+    const char = str[start + 1];
+    if (char === undefined) return null;
+
+    if (this.isJSON5()) {
+      const escape = this.readJSON5Escape(str, start, char);
+      if (escape !== undefined) return escape;
+    }
+
+    if (char !== 'u') {
+      if (this.options.strict && !JSON_ESCAPES.includes(char)) {
+        return { error: `Invalid escape: \\${char}`, length: 2 };
+      }
+      return { value: this.getEscapedChar(char), length: 2 };
+    }
+
+    const code = this.readHexQuad(str, start + 2);
+    if (code === null) return null;
+    if (code === undefined) {
+      return { error: `Invalid unicode escape: ${str.slice(start, start + 6)}`, length: 2 };
+    }
+
+    // Low surrogate without a preceding high surrogate
+    if (code >= 0xdc00 && code <= 0xdfff) {
+      return this.unpairedSurrogate(code, 6);
+    }
+
+    if (code < 0xd800 || code > 0xdbff) {
+      return { value: String.fromCharCode(code), length: 6 };
+    }
+
+    // High surrogate - must be followed by a \u escape for a low surrogate
+    const next = start + 6;
+    if (next >= str.length) return null;
+    if (str[next] !== '\\') return this.unpairedSurrogate(code, 6);
+    if (next + 1 >= str.length) return null;
+    if (str[next + 1] !== 'u') return this.unpairedSurrogate(code, 6);
+
+    const low = this.readHexQuad(str, next + 2);
+    if (low === null) return null;
+    if (low === undefined || low < 0xdc00 || low > 0xdfff) {
+      return this.unpairedSurrogate(code, 6);
+    }
+
+    return { value: String.fromCharCode(code, low), length: 12 };
+  }
+
+  /**
+   * Escapes that only exist in JSON5: line continuations, \v, \0 and \xHH.
+   * Returns undefined for escapes shared with JSON.
+   */
+  private readJSON5Escape(str: string, start: number, char: string): EscapeResult | undefined {
+    switch (char) {
+      case '\n':
+      case '\u2028':
+      case '\u2029':
+        return { value: '', length: 2 };
+      case '\r':
+        if (start + 2 >= str.length) return null;
+        return { value: '', length: str[start + 2] === '\n' ? 3 : 2 };
+      case 'v':
+        return { value: '\v', length: 2 };
+      case '0':
+        return { value: '\0', length: 2 };
+      case 'x': {
+        if (start + 4 > str.length) {
+          return /^[0-9a-fA-F]*$/.test(str.slice(start + 2)) ? null : { error: `Invalid hex escape: ${str.slice(start, start + 4)}`, length: 2 };
+        }
+        const hex = str.slice(start + 2, start + 4);
+        if (!/^[0-9a-fA-F]{2}$/.test(hex)) {
+          return { error: `Invalid hex escape: \\x${hex}`, length: 2 };
         }
+        return { value: String.fromCharCode(parseInt(hex, 16)), length: 4 };
       }
-      result += char ?? '';
-      i++;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Parse four hex digits at str[start]. Returns null if fewer than four
+   * characters are available, undefined if they are not valid hex.
+   */
+  private readHexQuad(str: string, start: number): number | null | undefined {
+    if (start + 4 > str.length) {
+      // Reject early if the digits we already have can never form a valid escape
+      return /^[0-9a-fA-F]*$/.test(str.slice(start)) ? null : undefined;
+    }
+    const hex = str.slice(start, start + 4);
+    return HEX_QUAD.test(hex) ? parseInt(hex, 16) : undefined;
+  }
+
+  private unpairedSurrogate(code: number, length: number): EscapeResult {
+    if (this.options.unpairedSurrogates === 'error') {
+      return { error: `Unpaired surrogate: \\u${code.toString(16).padStart(4, '0')}`, length };
     }
-    return result;
+    return { value: REPLACEMENT_CHAR, length };
   }
 }
+
+/**
+ * Line and column reached after scanning text[start, end) from a known position
+ */
+function advanceLocation(
+  text: string,
+  start: number,
+  end: number,
+  from: { line: number; column: number }
+): { line: number; column: number } {
+  let { line, column } = from;
+  for (let i = start; i < end; i++) {
+    if (text.charCodeAt(i) === 10) {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+  }
+  return { line, column };
+}
+
+/**
+ * Convert a validated JSON5 number lexeme to its value
+ */
+function parseJSON5Number(raw: string): number {
+  const sign = raw.startsWith('-') ? -1 : 1;
+  const unsigned = raw.replace(/^[-+]/, '');
+
+  if (unsigned === 'Infinity') return sign * Infinity;
+  if (unsigned === 'NaN') return NaN;
+  if (/^0[xX]/.test(unsigned)) return sign * parseInt(unsigned.slice(2), 16);
+  return sign * parseFloat(unsigned);
+}
+
+/**
+ * Length of a string once encoded as UTF-8
+ */
+function utf8ByteLength(str: string): number {
+  let length = 0;
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i);
+    if (code < 0x80) {
+      length += 1;
+    } else if (code < 0x800) {
+      length += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < str.length) {
+      const next = str.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        // Surrogate pair encodes a 4-byte code point
+        length += 4;
+        i++;
+      } else {
+        length += 3;
+      }
+    } else {
+      length += 3;
+    }
+  }
+  return length;
+}
+
+/**
+ * Check a number lexeme against the RFC 8259 grammar. Returns the index and
+ * description of the first violation, or null if the lexeme is valid.
+ */
+function findNumberError(raw: string): { index: number; message: string } | null {
+  const isDigit = (index: number): boolean => {
+    const code = raw.charCodeAt(index);
+    return code >= 48 && code <= 57;
+  };
+
+  let i = 0;
+  if (raw[i] === '-') i++;
+
+  if (raw[i] === '0') {
+    i++;
+    if (isDigit(i)) return { index: i, message: 'leading zeros are not allowed' };
+  } else if (isDigit(i)) {
+    while (isDigit(i)) i++;
+  } else {
+    return { index: i, message: 'expected a digit' };
+  }
+
+  if (raw[i] === '.') {
+    i++;
+    if (!isDigit(i)) return { index: i, message: 'expected a digit after the decimal point' };
+    while (isDigit(i)) i++;
+  }
+
+  if (raw[i] === 'e' || raw[i] === 'E') {
+    i++;
+    if (raw[i] === '+' || raw[i] === '-') i++;
+    if (!isDigit(i)) return { index: i, message: 'expected a digit in the exponent' };
+    while (isDigit(i)) i++;
+  }
+
+  if (i < raw.length) {
+    return { index: i, message: `unexpected "${raw[i]}"` };
+  }
+  return null;
+}
+
+function isSmartQuoteCode(code: number): boolean {
+  return (code >= 0x2018 && code <= 0x201f) || code === 0xff02 || code === 0xff07;
+}
+
+/**
+ * The ASCII quote a typographic quote stands in for, or null
+ */
+function smartQuoteClass(char: string): '"' | "'" | null {
+  if (char.length !== 1) return null;
+  if (SMART_DOUBLE_QUOTES.includes(char)) return '"';
+  if (SMART_SINGLE_QUOTES.includes(char)) return "'";
+  return null;
+}
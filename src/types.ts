@@ -127,15 +127,105 @@ export enum TokenType {
   PartialString = 'PARTIAL_STRING',
   PartialNumber = 'PARTIAL_NUMBER',
   PartialKey = 'PARTIAL_KEY',
+  /** RFC 7464 record separator (0x1E); value is true when it cut off a token */
+  RecordSeparator = 'RECORD_SEPARATOR',
   Error = 'ERROR',
 }
 
+/**
+ * Input syntax accepted by the tokenizer
+ */
+export type JSONDialect = 'json' | 'json5';
+
+/**
+ * How number tokens are materialized: as JS numbers, as BigInt for integers
+ * beyond the safe range, as the raw source text, or through a custom factory
+ * that receives the raw text
+ */
+export type NumberMode = 'number' | 'bigint' | 'string' | ((raw: string) => unknown);
+
+/**
+ * Input accepted by the streaming APIs: decoded text, or raw UTF-8 bytes
+ */
+export type StreamChunk = string | Uint8Array | ArrayBuffer;
+
+/**
+ * A position in the input, counted across all chunks
+ */
+export interface SourceLocation {
+  /** Absolute character offset from the start of the input */
+  offset: number;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * Text that surrounded the JSON value in the input
+ */
+export interface SkippedText {
+  /** Prose and fence markers before the first { or [ */
+  before: string;
+  /** Closing fence and prose after the JSON value */
+  after: string;
+}
+
+/**
+ * Kinds of fixes LLM mode applies to malformed output
+ */
+export type RecoveryKind =
+  | 'python-literal'
+  | 'undefined-literal'
+  | 'smart-quote'
+  | 'fullwidth-punctuation'
+  | 'unescaped-quote'
+  | 'unescaped-control-character'
+  | 'unquoted-string'
+  | 'unquoted-key'
+  | 'single-quote'
+  | 'skipped-char'
+  | 'trailing-comma'
+  | 'extra-comma'
+  | 'missing-comma'
+  | 'missing-colon'
+  | 'missing-value'
+  | 'skipped-token';
+
+/**
+ * A fix the tokenizer applied while producing a token
+ */
+export interface TokenRecovery {
+  kind: RecoveryKind;
+  message: string;
+}
+
+/**
+ * A fix the tokenizer applied, with where it happened
+ */
+export interface LocatedRecovery extends TokenRecovery, SourceLocation {}
+
+/**
+ * A fix applied to the input, with where it happened and the JSON path of
+ * the key or value it affected
+ */
+export interface Recovery<P = string[]> extends LocatedRecovery {
+  path: P;
+}
+
 export interface Token {
   type: TokenType;
   value: unknown;
   raw: string;
+  /** Absolute character offset from the start of the input */
   position: number;
+  /** 1-based line of the token's first character */
+  line: number;
+  /** 1-based column of the token's first character */
+  column: number;
   isPartial: boolean;
+  /** Present when LLM mode rewrote the input to produce this token */
+  recoveries?: LocatedRecovery[];
 }
 
 /**
@@ -160,20 +250,45 @@ export interface StackFrame {
   schema?: JSONSchema;
   completedKeys: Set<string>;
   arrayIndex: number;
+  /** Set on arrays matched by arrayItems, whose items go to onArrayItem */
+  emitItems?: boolean;
+  /** Running summary of an array whose items are dropped after onArrayItem */
+  summary?: ArraySummary;
+}
+
+/**
+ * What validation needs to know about the items of an array that were not
+ * kept: whether one matched contains, and whether any repeated
+ */
+export interface ArraySummary {
+  containsMatched: boolean;
+  /** Serialized items, only collected when the schema has uniqueItems */
+  seen: Set<string>;
+  duplicate: boolean;
+}
+
+/**
+ * Selects arrays whose items are delivered through onArrayItem
+ */
+export interface ArrayItemOptions {
+  /** JSONPath selectors of the arrays, such as '$.items' */
+  paths: string[];
+  /** Keep the items in data too (default: true); false drops each item once onArrayItem returns */
+  retain?: boolean;
 }
 
 /**
  * Validation result types
  */
-export interface ValidationError {
-  path: string[];
+export interface ValidationError<P = string[]> {
+  path: P;
   message: string;
   keyword: string;
   schema: JSONSchema;
   value?: unknown;
 }
 
-export interface ParseResult<T = unknown> {
+export interface ParseResult<T = unknown, P = string[]> {
   /** Whether parsing is complete */
   complete: boolean;
   /** Whether the current state is valid (even if partial) */
@@ -184,29 +299,99 @@ export interface ParseResult<T = unknown> {
   completedFields: string[];
   /** Fields currently being parsed */
   pendingFields: string[];
+  /** Fields whose value in data is an unfinished string or number (partialValues) */
+  partialFields: string[];
+  /** JSON Patch operations that changed data since the previous result (jsonPatch) */
+  patch: JSONPatchOperation[];
   /** Validation errors encountered */
-  errors: ValidationError[];
+  errors: ValidationError<P>[];
+  /** Fixes applied to malformed input in LLM mode */
+  recoveries: Recovery<P>[];
+  /** Text skipped before and after the JSON value when extractJSON is enabled */
+  skippedText: SkippedText;
   /** Current parsing depth */
   depth: number;
-  /** Number of bytes processed */
+  /** Number of UTF-8 bytes processed */
   bytesProcessed: number;
+  /** Number of decoded characters (UTF-16 code units) processed */
+  charactersProcessed: number;
+  /** Number of top-level documents completed so far */
+  completedDocuments: number;
+  /** Records dropped so far with framing: 'json-seq' */
+  recordErrors: RecordError[];
+}
+
+/**
+ * A json-seq record that could not be parsed. The stream carries on with the
+ * next record.
+ */
+export interface RecordError extends SourceLocation {
+  /** 0-based index of the record among the non-empty records in the stream */
+  record: number;
+  /** 'truncated' when the record ended mid-value, 'malformed' for a syntax error */
+  kind: 'malformed' | 'truncated';
+  message: string;
+}
+
+/**
+ * An RFC 6902 operation describing a change to ParseResult.data. The parser
+ * only grows the tree, so it emits add and replace.
+ */
+export interface JSONPatchOperation {
+  op: 'add' | 'replace';
+  /** RFC 6901 JSON Pointer to the changed location */
+  path: string;
+  value: unknown;
 }
 
 /**
  * Event types for the parser
  */
-export interface ParserEvents<T = unknown> {
-  onPartialObject?: (data: Partial<T>, path: string[]) => void;
-  onCompleteField?: (field: string, value: unknown, path: string[]) => void;
-  onValidationError?: (error: ValidationError) => void;
+export interface ParserEvents<T = unknown, P = string[]> {
+  onPartialObject?: (data: Partial<T>, path: P) => void;
+  onCompleteField?: (field: string, value: unknown, path: P) => void;
+  onValidationError?: (error: ValidationError<P>) => void;
   onComplete?: (data: T) => void;
+  /** Called for each completed top-level value in multiDocument mode, with its validation errors */
+  onDocument?: (value: T, index: number, errors: ValidationError<P>[]) => void;
+  /** Called at the first character of every value, with the path where it belongs */
+  onValueStart?: (path: P, location: SourceLocation) => void;
+  /** Called for every completed value, after the events for anything nested inside it */
+  onValue?: (value: unknown, path: P, location: SourceLocation) => void;
+  /** Called for every object key, with the path of the member it names */
+  onKey?: (key: string, path: P, location: SourceLocation) => void;
+  onObjectStart?: (path: P, location: SourceLocation) => void;
+  onObjectEnd?: (value: Record<string, unknown>, path: P, location: SourceLocation) => void;
+  onArrayStart?: (path: P, location: SourceLocation) => void;
+  /** Called when ] closes an array; a non-retained arrayItems array is empty */
+  onArrayEnd?: (value: unknown[], path: P, location: SourceLocation) => void;
+  /**
+   * Called with the newly decoded characters of a string as it streams. final
+   * marks the closing quote. Keys are reported with the path of their object.
+   */
+  onStringDelta?: (path: P, delta: string, soFar: string, final: boolean, isKey: boolean) => void;
+  /** Called for each completed item of an array selected by arrayItems, with the array's path */
+  onArrayItem?: (item: unknown, index: number, path: P) => void;
+  /** Called for each fix LLM mode applies to malformed input */
+  onRecovery?: (recovery: Recovery<P>) => void;
+  /** Called for each malformed or truncated record with framing: 'json-seq' */
+  onRecordError?: (error: RecordError) => void;
   onError?: (error: Error) => void;
 }
 
+/**
+ * How paths are reported: as arrays of segments, or as RFC 6901 JSON
+ * Pointer strings
+ */
+export type PathFormat = 'segments' | 'pointer';
+
+/** The type of a reported path for a PathFormat */
+export type FormattedPath<F extends PathFormat = 'segments'> = F extends 'pointer' ? string : string[];
+
 /**
  * Parser options
  */
-export interface ParserOptions<T extends JSONSchema = JSONSchema> {
+export interface ParserOptions<T extends JSONSchema = JSONSchema, F extends PathFormat = 'segments'> {
   schema?: T;
   /** Enable LLM error recovery mode */
   llmMode?: boolean;
@@ -216,18 +401,102 @@ export interface ParserOptions<T extends JSONSchema = JSONSchema> {
   allowUnquotedKeys?: boolean;
   /** Allow single quotes for strings */
   allowSingleQuotes?: boolean;
+  /** Input dialect; 'json5' accepts comments, hex/Infinity/NaN numbers, line continuations and the relaxed options above (default: 'json') */
+  dialect?: JSONDialect;
+  /** Enforce RFC 8259 exactly; cannot be combined with llmMode, json5 or the relaxed options */
+  strict?: boolean;
+  /** Representation of parsed numbers (default: 'number') */
+  numberMode?: NumberMode;
+  /** Skip prose and markdown code fences around the first object or array (default: false) */
+  extractJSON?: boolean;
+  /** Write strings and numbers still streaming into data, listed in partialFields (default: false) */
+  partialValues?: boolean;
+  /** Report the changes to data in each ParseResult as RFC 6902 JSON Patch operations (default: false) */
+  jsonPatch?: boolean;
+  /** Give data a new identity on every change, copying only the containers along the changed path (default: false) */
+  immutable?: boolean;
+  /** Deliver the items of selected arrays through onArrayItem as they complete, optionally without keeping them */
+  arrayItems?: ArrayItemOptions;
+  /** Parse a stream of top-level values, such as NDJSON, reporting each through onDocument (default: false) */
+  multiDocument?: boolean;
+  /** Read RFC 7464 JSON text sequences, reporting each record through onDocument and skipping bad ones */
+  framing?: 'json-seq';
+  /** How to handle lone or mismatched surrogates in \u escapes: substitute U+FFFD or report an error (default: 'replace') */
+  unpairedSurrogates?: 'replace' | 'error';
+  /** Report paths in fields, errors, recoveries, repairs and events as JSON Pointers (default: 'segments') */
+  pathFormat?: F;
   /** Max nesting depth (default: 100) */
   maxDepth?: number;
   /** Event callbacks */
-  events?: ParserEvents<InferSchemaType<T>>;
+  events?: ParserEvents<InferSchemaType<T>, FormattedPath<F>>;
+}
+
+/**
+ * Kinds of fixes finalize({ repair: true }) makes to a truncated document
+ */
+export type RepairKind =
+  | 'closed-string'
+  | 'completed-number'
+  | 'completed-literal'
+  | 'dropped-value'
+  | 'dropped-key'
+  | 'null-value'
+  | 'closed-array'
+  | 'closed-object';
+
+/**
+ * A fix made to complete a truncated document
+ */
+export interface Repair<P = string[]> {
+  kind: RepairKind;
+  /** Path of the repaired value */
+  path: P;
+  message: string;
+}
+
+export interface FinalizeOptions {
+  /** Close whatever the input left open instead of throwing a TruncationError (default: false) */
+  repair?: boolean;
+  /** Drop a key whose value never arrived, or keep it with a null value (default: 'drop') */
+  danglingKeys?: 'drop' | 'null';
+}
+
+export interface FinalizeResult<T = unknown, P = string[]> {
+  /** The complete or repaired value */
+  value: Partial<T> | T;
+  /** Whether the value passed schema validation */
+  valid: boolean;
+  /** Validation errors for the whole value */
+  errors: ValidationError<P>[];
+  /** Fixes made to complete the value, innermost first */
+  repairs: Repair<P>[];
+  /** JSON Patch operations that changed the value since the last feed, including repairs (jsonPatch) */
+  patch: JSONPatchOperation[];
+}
+
+/**
+ * Called with a value matching a parser.on() selector and its path. partial
+ * is true for an unfinished string or number delivered with streaming.
+ */
+export type SubscriptionHandler<P = string[]> = (value: unknown, path: P, partial: boolean) => void;
+
+export interface SubscriptionOptions {
+  /** Also call the handler with each partial string or number as it streams (default: false) */
+  streaming?: boolean;
 }
 
 /**
  * Stream parser interface
  */
-export interface StreamParser<T = unknown> {
+export interface StreamParser<T = unknown, P = string[]> {
   /** Feed a chunk of data to the parser */
-  feed(chunk: string): ParseResult<T>;
+  feed(chunk: StreamChunk): ParseResult<T, P>;
+  /** Signal end of input, flushing a pending top-level number or keyword */
+  end(): ParseResult<T, P>;
+  /** End input and return the value, repairing a truncated one if asked */
+  finalize(options?: FinalizeOptions): FinalizeResult<T, P>;
+  /** Call handler for each value matching a JSONPath selector; returns an unsubscribe function */
+  on(selector: string, handler: SubscriptionHandler<P>, options?: SubscriptionOptions): () => void;
   /** Reset the parser state */
   reset(): void;
   /** Get current state */
@@ -1,10 +1,12 @@
-import { JSONSchema, ValidationError, JSONSchemaType } from './types.js';
+import { JSONSchema, ValidationError, JSONSchemaType, NumberMode, ArraySummary } from './types.js';
 
 export interface ValidatorOptions {
   /** Allow early rejection on type mismatch */
   earlyReject?: boolean;
   /** Collect all errors or stop at first */
   allErrors?: boolean;
+  /** How the parser represents numbers, so lossless values validate as numbers */
+  numberMode?: NumberMode;
 }
 
 export interface ValidationContext {
@@ -12,27 +14,38 @@ export interface ValidationContext {
   schema: JSONSchema;
   root: JSONSchema;
   definitions: Record<string, JSONSchema>;
+  /** Source text of a value that came from a number token, for raw-text and factory-built numbers */
+  numberText?: string;
 }
 
 export class SchemaValidator {
   private options: ValidatorOptions;
+  private numberMode: NumberMode;
   private definitions: Record<string, JSONSchema>;
+  /** Arrays whose items were dropped; their summary was validated instead */
+  private summarized: WeakSet<unknown[]>;
+  /** Members of parsed containers that came from number tokens */
+  private numbers: WeakMap<object, Map<string, string>>;
 
   constructor(private schema: JSONSchema, options: ValidatorOptions = {}) {
     this.options = {
       earlyReject: options.earlyReject ?? true,
       allErrors: options.allErrors ?? false,
     };
+    this.numberMode = options.numberMode ?? 'number';
     this.definitions = {
       ...schema.$defs,
       ...schema.definitions,
     };
+    this.summarized = new WeakSet();
+    this.numbers = new WeakMap();
   }
 
   /**
-   * Validate a complete value against the schema
+   * Validate a complete value against the schema. With numberMode 'string' or
+   * a factory, pass the source text of a value that came from a number token.
    */
-  validate(value: unknown, path: string[] = []): ValidationError[] {
+  validate(value: unknown, path: string[] = [], numberText?: string): ValidationError[] {
     // Get the schema at the specified path
     const schemaAtPath = path.length > 0 ? this.getSchemaAtPath(path) : this.schema;
     if (!schemaAtPath) {
@@ -45,10 +58,29 @@ export class SchemaValidator {
       schema: schemaAtPath,
       root: this.schema,
       definitions: this.definitions,
+      numberText,
     };
     return this.validateValue(value, ctx);
   }
 
+  /**
+   * Record that a member of a parsed object or array came from a number
+   * token with the given source text. Raw text and factory results look like
+   * strings or objects once stored, so containers validated later look up
+   * which members are numbers and check their text.
+   */
+  markNumber(container: object, key: string, text: string): void {
+    if (this.numberMode === 'number' || this.numberMode === 'bigint') return;
+
+    const keys = this.numbers.get(container);
+    if (keys) {
+      keys.set(key, text);
+    } else {
+      this.numbers.set(container, new Map([[key, text]]));
+    }
+  }
+
+
   /**
    * Validate a partial value - used during streaming
    * Returns errors only for fields that are complete
@@ -75,6 +107,60 @@ export class SchemaValidator {
     return errors;
   }
 
+  /**
+   * Fold a completed item into the summary of an array whose items are not
+   * kept, given the array's schema
+   */
+  summarizeArrayItem(
+    summary: ArraySummary,
+    item: unknown,
+    schema: JSONSchema | undefined,
+    path: string[],
+    numberText?: string
+  ): void {
+    if (!schema) return;
+
+    if (schema.contains && !summary.containsMatched) {
+      const ctx: ValidationContext = { path, schema: schema.contains, root: this.schema, definitions: this.definitions, numberText };
+      summary.containsMatched = this.validateValue(item, ctx).length === 0;
+    }
+
+    // Serialized items are only collected when the schema asks for uniqueness
+    if (schema.uniqueItems && !summary.duplicate) {
+      const serialized = this.serializeItem(item, numberText ?? null);
+      summary.duplicate = summary.seen.has(serialized);
+      summary.seen.add(serialized);
+    }
+  }
+
+  /**
+   * Check the item count, uniqueItems and contains of an array whose items
+   * were validated one at a time and then dropped. The emptied array is
+   * skipped when a containing value is validated later.
+   */
+  validateArraySummary(
+    array: unknown[],
+    summary: ArraySummary,
+    length: number,
+    schema: JSONSchema | undefined,
+    path: string[]
+  ): ValidationError[] {
+    this.summarized.add(array);
+    if (!schema) return [];
+
+    const ctx: ValidationContext = { path, schema, root: this.schema, definitions: this.definitions };
+    const errors = this.validateItemCount(length, schema, ctx);
+
+    if (summary.duplicate) {
+      errors.push(this.createError(ctx, 'uniqueItems', 'Array items must be unique'));
+    }
+    if (schema.contains && !summary.containsMatched) {
+      errors.push(this.createError(ctx, 'contains', 'Array must contain at least one matching item'));
+    }
+
+    return errors;
+  }
+
   /**
    * Check if a type is valid for the schema before receiving full value
    * Used for early rejection
@@ -176,21 +262,24 @@ export class SchemaValidator {
     }
 
     // Const validation
+    const numericText = this.getNumericText(value, ctx);
     if (schema.const !== undefined) {
-      if (!this.deepEqual(value, schema.const)) {
+      if (!this.deepEqual(value, schema.const, numericText)) {
         errors.push(this.createError(ctx, 'const', `Value must be ${JSON.stringify(schema.const)}`));
       }
     }
 
     // Enum validation
     if (schema.enum !== undefined) {
-      if (!schema.enum.some(e => this.deepEqual(value, e))) {
+      if (!schema.enum.some(e => this.deepEqual(value, e, numericText))) {
         errors.push(this.createError(ctx, 'enum', `Value must be one of: ${schema.enum.map(e => JSON.stringify(e)).join(', ')}`));
       }
     }
 
     // Type-specific validation
-    if (typeof value === 'string') {
+    if (numericText !== null) {
+      errors.push(...this.validateNumericText(numericText, value, schema, ctx));
+    } else if (typeof value === 'string') {
       errors.push(...this.validateString(value, schema, ctx));
     } else if (typeof value === 'number') {
       errors.push(...this.validateNumber(value, schema, ctx));
@@ -256,6 +345,15 @@ export class SchemaValidator {
     const types = Array.isArray(type) ? type : [type];
     const actualType = this.getJSONType(value);
 
+    // BigInt, raw-text and factory-built numbers
+    const numericText = this.getNumericText(value, ctx);
+    if (numericText !== null) {
+      if (types.includes('number') || (types.includes('integer') && this.isIntegerText(numericText))) {
+        return [];
+      }
+      return [this.createError(ctx, 'type', `Expected ${types.join(' or ')}, got number`, value)];
+    }
+
     for (const t of types) {
       if (t === actualType) return [];
       // integer is a subset of number
@@ -314,26 +412,92 @@ export class SchemaValidator {
       errors.push(this.createError(ctx, 'exclusiveMaximum', `Value must be < ${schema.exclusiveMaximum}`, value));
     }
 
-    if (schema.multipleOf !== undefined && value % schema.multipleOf !== 0) {
+    if (schema.multipleOf !== undefined && !this.isNumberMultipleOf(value, schema.multipleOf)) {
       errors.push(this.createError(ctx, 'multipleOf', `Value must be a multiple of ${schema.multipleOf}`, value));
     }
 
     return errors;
   }
 
-  private validateArray(value: unknown[], schema: JSONSchema, ctx: ValidationContext): ValidationError[] {
+  /**
+   * multipleOf on the shortest decimal text, so 19.99 is a multiple of 0.01
+   * despite binary floating point
+   */
+  private isNumberMultipleOf(value: number, multipleOf: number): boolean {
+    const decimal = toDecimal(String(value));
+    const divisor = toDecimal(String(multipleOf));
+    if (!decimal || !divisor || divisor.coefficient === 0n) {
+      return value % multipleOf === 0;
+    }
+    return isMultipleOf(decimal, divisor);
+  }
+
+  /**
+   * Numeric keywords for lossless numbers, compared exactly on their decimal text
+   */
+  private validateNumericText(text: string, value: unknown, schema: JSONSchema, ctx: ValidationContext): ValidationError[] {
+    const decimal = toDecimal(text);
+    if (!decimal) {
+      // Exponent too large for exact arithmetic
+      return this.validateNumber(Number(text), schema, ctx).map(error => ({ ...error, value }));
+    }
+
     const errors: ValidationError[] = [];
+    const compare = (bound: number): number => {
+      const boundDecimal = toDecimal(String(bound));
+      return boundDecimal ? compareDecimals(decimal, boundDecimal) : Number(text) < bound ? -1 : 1;
+    };
+
+    if (schema.minimum !== undefined && compare(schema.minimum) < 0) {
+      errors.push(this.createError(ctx, 'minimum', `Value must be >= ${schema.minimum}`, value));
+    }
 
-    if (schema.minItems !== undefined && value.length < schema.minItems) {
+    if (schema.maximum !== undefined && compare(schema.maximum) > 0) {
+      errors.push(this.createError(ctx, 'maximum', `Value must be <= ${schema.maximum}`, value));
+    }
+
+    if (schema.exclusiveMinimum !== undefined && compare(schema.exclusiveMinimum) <= 0) {
+      errors.push(this.createError(ctx, 'exclusiveMinimum', `Value must be > ${schema.exclusiveMinimum}`, value));
+    }
+
+    if (schema.exclusiveMaximum !== undefined && compare(schema.exclusiveMaximum) >= 0) {
+      errors.push(this.createError(ctx, 'exclusiveMaximum', `Value must be < ${schema.exclusiveMaximum}`, value));
+    }
+
+    if (schema.multipleOf !== undefined) {
+      const divisor = toDecimal(String(schema.multipleOf));
+      if (divisor && divisor.coefficient !== 0n && !isMultipleOf(decimal, divisor)) {
+        errors.push(this.createError(ctx, 'multipleOf', `Value must be a multiple of ${schema.multipleOf}`, value));
+      }
+    }
+
+    return errors;
+  }
+
+  private validateItemCount(length: number, schema: JSONSchema, ctx: ValidationContext, value?: unknown[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (schema.minItems !== undefined && length < schema.minItems) {
       errors.push(this.createError(ctx, 'minItems', `Array must have at least ${schema.minItems} items`, value));
     }
 
-    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    if (schema.maxItems !== undefined && length > schema.maxItems) {
       errors.push(this.createError(ctx, 'maxItems', `Array must have at most ${schema.maxItems} items`, value));
     }
 
-    if (schema.uniqueItems && new Set(value.map(v => JSON.stringify(v))).size !== value.length) {
-      errors.push(this.createError(ctx, 'uniqueItems', 'Array items must be unique', value));
+    return errors;
+  }
+
+  private validateArray(value: unknown[], schema: JSONSchema, ctx: ValidationContext): ValidationError[] {
+    if (this.summarized.has(value)) return [];
+
+    const errors = this.validateItemCount(value.length, schema, ctx, value);
+
+    if (schema.uniqueItems) {
+      const serialized = value.map((item, i) => this.serializeItem(item, this.memberNumericText(value, String(i), item)));
+      if (new Set(serialized).size !== value.length) {
+        errors.push(this.createError(ctx, 'uniqueItems', 'Array items must be unique', value));
+      }
     }
 
     // Validate items
@@ -347,6 +511,7 @@ export class SchemaValidator {
               ...ctx,
               path: [...ctx.path, String(i)],
               schema: itemSchema,
+              numberText: this.numberTextAt(value, String(i)),
             };
             errors.push(...this.validateValue(value[i], itemCtx));
           } else if (schema.additionalItems === false && i >= schema.items.length) {
@@ -360,6 +525,7 @@ export class SchemaValidator {
             ...ctx,
             path: [...ctx.path, String(i)],
             schema: schema.items,
+            numberText: this.numberTextAt(value, String(i)),
           };
           errors.push(...this.validateValue(value[i], itemCtx));
         }
@@ -368,8 +534,8 @@ export class SchemaValidator {
 
     // Contains validation
     if (schema.contains) {
-      const containsValid = value.some(item => {
-        const itemCtx: ValidationContext = { ...ctx, schema: schema.contains! };
+      const containsValid = value.some((item, i) => {
+        const itemCtx: ValidationContext = { ...ctx, schema: schema.contains!, numberText: this.numberTextAt(value, String(i)) };
         return this.validateValue(item, itemCtx).length === 0;
       });
       if (!containsValid) {
@@ -412,6 +578,7 @@ export class SchemaValidator {
             ...ctx,
             path: [...ctx.path, key],
             schema: propSchema,
+            numberText: this.numberTextAt(value, key),
           };
           errors.push(...this.validateValue(value[key], propCtx));
         }
@@ -429,6 +596,7 @@ export class SchemaValidator {
               ...ctx,
               path: [...ctx.path, key],
               schema: patternSchema,
+              numberText: this.numberTextAt(value, key),
             };
             errors.push(...this.validateValue(value[key], propCtx));
           }
@@ -449,6 +617,7 @@ export class SchemaValidator {
             ...ctx,
             path: [...ctx.path, key],
             schema: schema.additionalProperties,
+            numberText: this.numberTextAt(value, key),
           };
           errors.push(...this.validateValue(value[key], propCtx));
         }
@@ -461,6 +630,7 @@ export class SchemaValidator {
         const nameCtx: ValidationContext = {
           ...ctx,
           schema: schema.propertyNames,
+          numberText: undefined,
         };
         const nameErrors = this.validateValue(key, nameCtx);
         if (nameErrors.length > 0) {
@@ -514,9 +684,38 @@ export class SchemaValidator {
     if (typeof value === 'string') return 'string';
     if (typeof value === 'number') return 'number';
     if (typeof value === 'boolean') return 'boolean';
+    if (typeof value === 'bigint') return 'integer';
     return 'null';
   }
 
+  /**
+   * Source text of a number produced by a non-default numberMode, or null.
+   * BigInts are always numbers; raw strings and factory results only count
+   * when they came from a number token, since a string may hold
+   * numeric-looking text.
+   */
+  private getNumericText(value: unknown, ctx: ValidationContext): string | null {
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (this.numberMode === 'number' || this.numberMode === 'bigint' || ctx.numberText === undefined) {
+      return null;
+    }
+    return NUMBER_TEXT.test(ctx.numberText) ? ctx.numberText : null;
+  }
+
+  /**
+   * Source text of a container member that came from a number token
+   */
+  private numberTextAt(container: object, key: string): string | undefined {
+    return this.numbers.get(container)?.get(key);
+  }
+
+  private isIntegerText(text: string): boolean {
+    const decimal = toDecimal(text);
+    return decimal ? decimal.exponent >= 0 : Number.isInteger(Number(text));
+  }
+
   private createError(ctx: ValidationContext, keyword: string, message: string, value?: unknown): ValidationError {
     return {
       path: ctx.path,
@@ -527,20 +726,120 @@ export class SchemaValidator {
     };
   }
 
-  private deepEqual(a: unknown, b: unknown): boolean {
+  /**
+   * Compare a parsed value to a schema value. numericText is the source text
+   * of a lossless number, which equals the schema number it denotes.
+   */
+  private deepEqual(a: unknown, b: unknown, numericText: string | null = null): boolean {
+    if (numericText !== null) {
+      return (typeof b === 'number' || typeof b === 'bigint') && equalsNumber(numericText, b);
+    }
     if (a === b) return true;
     if (typeof a !== typeof b) return false;
     if (a === null || b === null) return a === b;
     if (Array.isArray(a) && Array.isArray(b)) {
       if (a.length !== b.length) return false;
-      return a.every((v, i) => this.deepEqual(v, b[i]));
+      return a.every((v, i) => this.deepEqual(v, b[i], this.memberNumericText(a, String(i), v)));
     }
     if (typeof a === 'object' && typeof b === 'object') {
-      const aKeys = Object.keys(a as object);
+      const record = a as Record<string, unknown>;
+      const aKeys = Object.keys(record);
       const bKeys = Object.keys(b as object);
       if (aKeys.length !== bKeys.length) return false;
-      return aKeys.every(k => this.deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+      return aKeys.every(k => this.deepEqual(record[k], (b as Record<string, unknown>)[k], this.memberNumericText(record, k, record[k])));
     }
     return false;
   }
+
+  /**
+   * Source text of a BigInt or a marked lossless number inside a container
+   */
+  private memberNumericText(container: object, key: string, value: unknown): string | null {
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    return this.numberTextAt(container, key) ?? null;
+  }
+
+  /**
+   * Serialize an item for uniqueItems. Strings are tagged so they never
+   * collide with lossless numbers, which are written as canonical decimals
+   * so that 1.0 and 1 count as equal.
+   */
+  private serializeItem(item: unknown, numericText: string | null): string {
+    const validator = this;
+    return JSON.stringify(item, function (this: unknown, key: string, value: unknown): unknown {
+      const text = key === '' ? numericText ?? (typeof value === 'bigint' ? value.toString() : null)
+        : validator.memberNumericText(this as object, key, value);
+      if (text !== null) {
+        return `n${canonicalNumber(text)}`;
+      }
+      return typeof value === 'string' ? `s${value}` : value;
+    });
+  }
+}
+
+/**
+ * Exact decimal: coefficient * 10^exponent, with trailing zeros folded into
+ * the exponent
+ */
+interface Decimal {
+  coefficient: bigint;
+  exponent: number;
+}
+
+const NUMBER_TEXT = /^[-+]?(?:(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|0[xX][0-9a-fA-F]+)$/;
+const DECIMAL_PARTS = /^([-+]?)(\d*)(?:\.(\d*))?(?:[eE]([-+]?\d+))?$/;
+// Beyond this, scaling to a common exponent would build enormous BigInts
+const MAX_EXPONENT = 1000;
+
+function toDecimal(text: string): Decimal | null {
+  if (/^[-+]?0[xX]/.test(text)) {
+    const magnitude = BigInt(text.replace(/^[-+]/, ''));
+    return { coefficient: text.startsWith('-') ? -magnitude : magnitude, exponent: 0 };
+  }
+
+  const match = DECIMAL_PARTS.exec(text);
+  if (!match) return null;
+  const whole = match[2] ?? '';
+  const fraction = match[3] ?? '';
+  const exponent = Number(match[4] ?? '0') - fraction.length;
+  if (whole + fraction === '' || Math.abs(exponent) > MAX_EXPONENT) return null;
+
+  const magnitude = BigInt(whole + fraction);
+  let decimal: Decimal = { coefficient: match[1] === '-' ? -magnitude : magnitude, exponent };
+  while (decimal.coefficient !== 0n && decimal.coefficient % 10n === 0n) {
+    decimal = { coefficient: decimal.coefficient / 10n, exponent: decimal.exponent + 1 };
+  }
+  return decimal.coefficient === 0n ? { coefficient: 0n, exponent: 0 } : decimal;
+}
+
+function alignDecimals(a: Decimal, b: Decimal): [bigint, bigint] {
+  const exponent = Math.min(a.exponent, b.exponent);
+  return [
+    a.coefficient * 10n ** BigInt(a.exponent - exponent),
+    b.coefficient * 10n ** BigInt(b.exponent - exponent),
+  ];
+}
+
+function compareDecimals(a: Decimal, b: Decimal): number {
+  const [left, right] = alignDecimals(a, b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function isMultipleOf(value: Decimal, divisor: Decimal): boolean {
+  const [dividend, scaledDivisor] = alignDecimals(value, divisor);
+  return dividend % scaledDivisor === 0n;
+}
+
+function equalsNumber(text: string, expected: number | bigint): boolean {
+  const decimal = toDecimal(text);
+  const expectedDecimal = toDecimal(String(expected));
+  return decimal && expectedDecimal ? compareDecimals(decimal, expectedDecimal) === 0 : Number(text) === Number(expected);
+}
+
+/** Lossless number text with equal values written alike */
+function canonicalNumber(text: string): string {
+  const decimal = toDecimal(text);
+  return decimal ? `${decimal.coefficient}e${decimal.exponent}` : text;
 }
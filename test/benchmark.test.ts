@@ -72,6 +72,46 @@ describe('Benchmarks', () => {
       // This is a soft check; actual limits depend on Node.js version
     });
 
+    it('should stream a 10MB array without retaining its items', () => {
+      const itemCount = 50000;
+      const items = Array.from({ length: itemCount }, (_, i) => ({
+        id: i,
+        name: `Item with a moderately long name ${i}`,
+        description: 'A'.repeat(100),
+        values: Array.from({ length: 10 }, (_, j) => j),
+      }));
+      const json = JSON.stringify({ items });
+
+      let received = 0;
+      let lastId = -1;
+      const parser = createStreamParser(undefined, {
+        arrayItems: { paths: ['$.items'], retain: false },
+        events: {
+          onArrayItem: (item, index) => {
+            received++;
+            lastId = (item as { id: number }).id;
+            expect(index).toBe(lastId);
+          },
+        },
+      });
+
+      const memBefore = process.memoryUsage().heapUsed;
+      const chunkSize = 64 * 1024;
+      let result;
+      for (let i = 0; i < json.length; i += chunkSize) {
+        result = parser.feed(json.slice(i, i + chunkSize));
+      }
+      const memUsed = (process.memoryUsage().heapUsed - memBefore) / 1024 / 1024;
+
+      expect(result?.complete).toBe(true);
+      expect(result?.data).toEqual({ items: [] });
+      expect(result?.completedFields).toEqual(['items', '']);
+      expect(received).toBe(itemCount);
+      expect(lastId).toBe(itemCount - 1);
+
+      console.log(`Memory used without retaining items: ${memUsed.toFixed(2)}MB`);
+    });
+
     it('should parse faster than waiting for complete JSON in streaming scenario', () => {
       const json = JSON.stringify({
         users: Array.from({ length: 100 }, (_, i) => ({
@@ -111,6 +151,69 @@ describe('Benchmarks', () => {
     });
   });
 
+  describe('single-character chunks', () => {
+    it('should stream a long string field in linear time', () => {
+      const summary = 'The product is great. '.repeat(9200); // ~200KB
+      const json = JSON.stringify({ title: 'Review', summary, score: 12345.678 });
+
+      let streamed = '';
+      const parser = createStreamParser(undefined, {
+        events: {
+          onStringDelta: (path, delta) => {
+            if (path[0] === 'summary') streamed += delta;
+          },
+        },
+      });
+      const start = performance.now();
+
+      let result;
+      for (const char of json) {
+        result = parser.feed(char);
+      }
+
+      const elapsed = performance.now() - start;
+      console.log(`Single-character chunks: ${elapsed.toFixed(2)}ms for ${json.length} bytes`);
+
+      expect(result?.complete).toBe(true);
+      expect(result?.data).toEqual({ title: 'Review', summary, score: 12345.678 });
+      expect(streamed).toBe(summary);
+      // Rescanning or re-slicing the string on every feed takes seconds at this size
+      expect(elapsed).toBeLessThan(2000);
+    });
+
+    it('should read a long unquoted value in linear time', () => {
+      const text = 'very long unquoted value'.repeat(2000); // ~48KB
+      const json = `{"title": Review, "text": ${text}}`;
+
+      const parser = createLLMParser();
+      const start = performance.now();
+
+      let result;
+      for (const char of json) {
+        result = parser.feed(char);
+      }
+
+      const elapsed = performance.now() - start;
+      expect(result?.complete).toBe(true);
+      expect(result?.data).toEqual({ title: 'Review', text });
+      expect(elapsed).toBeLessThan(2000);
+    });
+
+    it('should decode escapes in long strings split into single characters', () => {
+      const text = 'line\n"quoted"\t\u00e9 😀 '.repeat(2000);
+      const json = JSON.stringify({ text });
+
+      const parser = createStreamParser();
+      let result;
+      for (let i = 0; i < json.length; i++) {
+        result = parser.feed(json[i]!);
+      }
+
+      expect(result?.complete).toBe(true);
+      expect((result?.data as { text: string }).text).toBe(text);
+    });
+  });
+
   describe('LLM error recovery', () => {
     it('should handle common LLM mistakes', () => {
       const llmParser = createLLMParser();
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { StreamingJSONParser } from '../src/parser.js';
+import { ParseError } from '../src/errors.js';
+
+/**
+ * RFC 8259 conformance corpus in the style of JSONTestSuite: y_ inputs must
+ * be accepted, n_ inputs rejected, and i_ inputs may go either way as long as
+ * the parser fails cleanly. Every input is also parsed at every two-chunk
+ * split and one character at a time, which must not change the outcome.
+ */
+const accepted: Record<string, string> = {
+  y_array_empty: '[]',
+  y_array_arrays_with_spaces: '[[]   ]',
+  y_array_heterogeneous: '[null, 1, "1", {}]',
+  y_array_with_leading_space: ' [1]',
+  y_array_with_trailing_space: '[2] ',
+  y_number: '[123e65]',
+  y_number_0e1: '[0e1]',
+  y_number_negative_zero: '[-0]',
+  y_number_real_capital_e_pos_exp: '[1E+2]',
+  y_number_real_fraction_exponent: '[123.456e78]',
+  y_number_real_neg_exp: '[1e-2]',
+  y_number_simple_real: '[-123.456]',
+  y_object_basic: '{"asd":"sdf"}',
+  y_object_duplicated_key: '{"a":"b","a":"c"}',
+  y_object_empty_key: '{"":0}',
+  y_object_escaped_null_in_key: '{"foo\\u0000bar": 42}',
+  y_object_nested: '{"x":[{"id": "xxx"}], "id": "xxx"}',
+  y_object_with_newlines: '{\n"a": "b"\n}',
+  y_string_allowed_escapes: '["\\"\\\\\\/\\b\\f\\n\\r\\t"]',
+  y_string_escaped_control_character: '["\\u0012"]',
+  y_string_surrogates_pair: '["\\uD801\\udc37"]',
+  y_string_unicode: '["\\uA66D"]',
+  y_string_utf8: '["€𝄞"]',
+  y_string_with_del_character: '["a\u007Fa"]',
+  y_structure_lonely_false: 'false',
+  y_structure_lonely_int: '42',
+  y_structure_lonely_negative_real: '-0.1',
+  y_structure_lonely_null: 'null',
+  y_structure_lonely_string: '"asd"',
+  y_structure_trailing_newline: '["a"]\n',
+  y_structure_whitespace_array: ' [] ',
+};
+
+const rejected: Record<string, string> = {
+  n_array_1_true_without_comma: '[1 true]',
+  n_array_comma_after_close: '[""],',
+  n_array_double_comma: '[1,,2]',
+  n_array_extra_comma: '["",]',
+  n_array_incomplete: '["x"',
+  n_array_just_comma: '[,]',
+  n_array_unclosed: '[',
+  n_incomplete_true: '[tru]',
+  n_number_0_dot_e1: '[0.e1]',
+  n_number_double_dot: '[1.2.3]',
+  n_number_expression: '[1-2+3]',
+  n_number_hex: '[0x1]',
+  n_number_infinity: '[Infinity]',
+  n_number_leading_dot: '[.123]',
+  n_number_leading_zero: '[01]',
+  n_number_minus_only: '[-]',
+  n_number_NaN: '[NaN]',
+  n_number_neg_leading_zero: '[-01]',
+  n_number_plus_one: '[+1]',
+  n_number_exponent_without_digits: '[1e]',
+  n_number_exponent_sign_without_digits: '[1e+]',
+  n_number_real_without_fractional_part: '[1.]',
+  n_object_comma_instead_of_colon: '{"x", null}',
+  n_object_double_colon: '{"x"::"b"}',
+  n_object_leading_comma: '{,"a":1}',
+  n_object_missing_colon: '{"a" b}',
+  n_object_missing_value: '{"a":',
+  n_object_non_string_key: '{1:1}',
+  n_object_single_quote: "{'a':0}",
+  n_object_trailing_comma: '{"id":0,}',
+  n_object_trailing_comment: '{"a":"b"}/**/',
+  n_object_unclosed_after_comma: '{"x": true,',
+  n_object_unquoted_key: '{a: "b"}',
+  n_string_escape_x: '["\\x00"]',
+  n_string_escaped_single_quote: '["\\\'"]',
+  n_string_incomplete_unicode_escape: '["\\u00A"]',
+  n_string_invalid_backslash_escape: '["\\a"]',
+  n_string_single_quote: "['single quote']",
+  n_string_unescaped_ctrl_char: '["a\u0000a"]',
+  n_string_unescaped_newline: '["new\nline"]',
+  n_string_unescaped_tab: '["\t"]',
+  n_structure_capitalized_true: '[True]',
+  n_structure_double_array: '[][]',
+  n_structure_lone_space: ' ',
+  n_structure_no_data: '',
+  n_structure_nbsp_whitespace: '[ ]',
+  n_structure_formfeed_whitespace: '[\f]',
+  n_structure_array_with_extra_close: '[1]]',
+  n_structure_object_followed_by_closing_object: '{}}',
+  n_structure_trailing_garbage: '2@',
+  n_structure_two_numbers: '1 2',
+  n_structure_two_strings: '"a" "b"',
+};
+
+const implementationDefined: Record<string, string> = {
+  i_number_huge_exp: '[1.5e999]',
+  i_number_very_big_negative_int: '[-237462374673276894279832749832423479823246327846]',
+  i_object_key_lone_2nd_surrogate: '{"\\uDFAA":0}',
+  i_string_incomplete_surrogate: '["\\uD800"]',
+  i_string_lone_second_surrogate: '["\\uDFAA"]',
+  i_structure_500_nested_arrays: '['.repeat(500) + ']'.repeat(500),
+  i_structure_utf8_bom_empty_object: '﻿{}',
+};
+
+type Outcome = { accepted: true; value: unknown } | { accepted: false };
+
+function parseStrict(chunks: string[]): Outcome {
+  const parser = new StreamingJSONParser({ strict: true });
+  try {
+    for (const chunk of chunks) {
+      parser.feed(chunk);
+    }
+    const result = parser.end();
+    return result.complete && result.errors.length === 0 ? { accepted: true, value: result.data } : { accepted: false };
+  } catch (error) {
+    // Anything other than a located syntax error is a parser bug
+    if (error instanceof ParseError) {
+      return { accepted: false };
+    }
+    throw error;
+  }
+}
+
+function chunkings(input: string): string[][] {
+  const result = [[input], Array.from(input)];
+  for (let i = 1; i < input.length; i++) {
+    result.push([input.slice(0, i), input.slice(i)]);
+  }
+  return result;
+}
+
+describe('RFC 8259 conformance (strict mode)', () => {
+  describe('y_ inputs are accepted', () => {
+    for (const [name, input] of Object.entries(accepted)) {
+      it(name, () => {
+        const expected: unknown = JSON.parse(input);
+        for (const chunks of chunkings(input)) {
+          expect(parseStrict(chunks), JSON.stringify(chunks)).toEqual({ accepted: true, value: expected });
+        }
+      });
+    }
+  });
+
+  describe('n_ inputs are rejected', () => {
+    for (const [name, input] of Object.entries(rejected)) {
+      it(name, () => {
+        expect(() => JSON.parse(input)).toThrow();
+        for (const chunks of chunkings(input)) {
+          expect(parseStrict(chunks), JSON.stringify(chunks)).toEqual({ accepted: false });
+        }
+      });
+    }
+  });
+
+  describe('i_ inputs fail cleanly and consistently', () => {
+    for (const [name, input] of Object.entries(implementationDefined)) {
+      it(name, () => {
+        const whole = parseStrict([input]);
+        for (const chunks of chunkings(input)) {
+          expect(parseStrict(chunks)).toEqual(whole);
+        }
+      });
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { createStreamParser } from '../src/parser.js';
+import { compileJSONPath } from '../src/jsonpath.js';
+
+const document = '{"items": [{"title": "First", "citations": ["a", "b"]}, {"title": "Second", "meta": {"citations": [{"id": 3}]}}], "0": "key"}';
+
+function collect(selector: string, input = document): [unknown, string[]][] {
+  const parser = createStreamParser();
+  const matches: [unknown, string[]][] = [];
+  parser.on(selector, (value, path) => matches.push([value, path]));
+  for (const char of input) {
+    parser.feed(char);
+  }
+  parser.end();
+  return matches;
+}
+
+describe('JSONPath subscriptions', () => {
+  it('should match names and wildcards', () => {
+    expect(collect('$.items[*].title')).toEqual([
+      ['First', ['items', '0', 'title']],
+      ['Second', ['items', '1', 'title']],
+    ]);
+    expect(collect("$['items'][1].*")).toEqual([
+      ['Second', ['items', '1', 'title']],
+      [{ citations: [{ id: 3 }] }, ['items', '1', 'meta']],
+    ]);
+  });
+
+  it('should match descendants at any depth', () => {
+    expect(collect('$..citations[*]')).toEqual([
+      ['a', ['items', '0', 'citations', '0']],
+      ['b', ['items', '0', 'citations', '1']],
+      [{ id: 3 }, ['items', '1', 'meta', 'citations', '0']],
+    ]);
+    expect(collect('$..id')).toEqual([[3, ['items', '1', 'meta', 'citations', '0', 'id']]]);
+  });
+
+  it('should tell array indexes from numeric keys', () => {
+    expect(collect('$[0]')).toEqual([]);
+    expect(collect("$['0']")).toEqual([['key', ['0']]]);
+    expect(collect('$[1]', '[10, 20]')).toEqual([[20, ['1']]]);
+  });
+
+  it('should fire for the root once it completes', () => {
+    expect(collect('$', '[1, [2]]')).toEqual([[[1, [2]], []]]);
+    expect(collect('$', '42')).toEqual([[42, []]]);
+  });
+
+  it('should fire as soon as a value completes', () => {
+    const parser = createStreamParser();
+    const titles: unknown[] = [];
+    parser.on('$.items[*].title', value => titles.push(value));
+
+    parser.feed('{"items": [{"title": "First", "body": "long');
+    expect(titles).toEqual(['First']);
+  });
+
+  it('should stream partial strings and numbers when asked', () => {
+    const parser = createStreamParser();
+    const calls: [unknown, boolean][] = [];
+    parser.on('$.text', (value, _path, partial) => calls.push([value, partial]), { streaming: true });
+    parser.on('$.count', (value, _path, partial) => calls.push([value, partial]));
+
+    parser.feed('{"text": "Hel');
+    parser.feed('lo", "count": 1');
+    parser.feed('2}');
+
+    expect(calls).toEqual([
+      ['Hel', true],
+      ['Hello', false],
+      [12, false],
+    ]);
+  });
+
+  it('should not stream keyword prefixes', () => {
+    const parser = createStreamParser();
+    const calls: [unknown, boolean][] = [];
+    parser.on('$.*', (value, _path, partial) => calls.push([value, partial]), { streaming: true });
+
+    parser.feed('{"ok": fa');
+    parser.feed('lse, "name": "A');
+
+    expect(calls).toEqual([
+      [false, false],
+      ['A', true],
+    ]);
+  });
+
+  it('should stop calling a handler after unsubscribe', () => {
+    const parser = createStreamParser();
+    const values: unknown[] = [];
+    const unsubscribe = parser.on('$[*]', value => {
+      values.push(value);
+      unsubscribe();
+    });
+
+    parser.feed('[1, 2, 3]');
+    expect(values).toEqual([1]);
+  });
+
+  it('should reject selectors that cannot be evaluated while streaming', () => {
+    expect(() => compileJSONPath('items')).toThrow('expected $');
+    expect(() => compileJSONPath('$.items[-1]')).toThrow('negative indexes');
+    expect(() => compileJSONPath('$.items[?(@.a)]')).toThrow('Invalid JSONPath selector');
+    expect(() => compileJSONPath("$['open")).toThrow('unterminated string');
+  });
+});
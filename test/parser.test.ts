@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { StreamingJSONParser, createStreamParser, createLLMParser } from '../src/parser.js';
-import { JSONSchema, ValidationError } from '../src/types.js';
+import { ParseError, TruncationError } from '../src/errors.js';
+import { JSONSchema, ParserOptions, RecordError, SourceLocation, ValidationError } from '../src/types.js';
 
 describe('StreamingJSONParser', () => {
   describe('basic parsing', () => {
@@ -129,6 +130,194 @@ describe('StreamingJSONParser', () => {
     });
   });
 
+  describe('partial values', () => {
+    it('should write a string into data as it streams', () => {
+      const parser = createStreamParser(undefined, { partialValues: true });
+
+      let result = parser.feed('{"title": "Review", "summary": "The product is gre');
+      expect(result.data).toEqual({ title: 'Review', summary: 'The product is gre' });
+      expect(result.partialFields).toEqual(['summary']);
+
+      result = parser.feed('at"');
+      expect(result.data).toEqual({ title: 'Review', summary: 'The product is great' });
+      expect(result.partialFields).toEqual([]);
+      expect(result.completedFields).toContain('summary');
+    });
+
+    it('should replace a partial array element with the final value', () => {
+      const parser = createStreamParser(undefined, { partialValues: true });
+
+      let result = parser.feed('{"tags": ["al');
+      expect(result.data).toEqual({ tags: ['al'] });
+      expect(result.partialFields).toEqual(['tags.0']);
+      expect(result.pendingFields).toContain('tags.0');
+
+      result = parser.feed('pha", "be');
+      expect(result.data).toEqual({ tags: ['alpha', 'be'] });
+      expect(result.partialFields).toEqual(['tags.1']);
+
+      result = parser.feed('ta"]}');
+      expect(result.data).toEqual({ tags: ['alpha', 'beta'] });
+      expect(result.complete).toBe(true);
+    });
+
+    it('should show partial values inside open containers', () => {
+      const parser = createStreamParser(undefined, { partialValues: true });
+      const result = parser.feed('{"sections": [{"heading": "Intro", "body": "Once');
+
+      expect(result.data).toEqual({ sections: [{ heading: 'Intro', body: 'Once' }] });
+      expect(result.partialFields).toEqual(['sections.0.body']);
+    });
+
+    it('should write the longest number read so far', () => {
+      const parser = createStreamParser(undefined, { partialValues: true });
+
+      expect(parser.feed('{"price": -').data).toEqual({});
+      expect(parser.feed('12.').data).toEqual({ price: -12 });
+      expect(parser.feed('5e').data).toEqual({ price: -12.5 });
+      expect(parser.feed('1, "qty"').data).toEqual({ price: -125 });
+    });
+
+    it('should not write keyword prefixes as partial strings', () => {
+      const parser = createStreamParser(undefined, { partialValues: true, jsonPatch: true });
+
+      let result = parser.feed('{"ok": tr');
+      expect(result.data).toEqual({});
+      expect(result.partialFields).toEqual([]);
+      expect(result.pendingFields).toContain('ok');
+      expect(result.patch).toEqual([{ op: 'add', path: '', value: {} }]);
+
+      result = parser.feed('ue, "none": nu');
+      expect(result.data).toEqual({ ok: true });
+      expect(result.patch).toEqual([{ op: 'add', path: '/ok', value: true }]);
+    });
+
+    it('should apply numberMode to partial numbers', () => {
+      const parser = createStreamParser(undefined, { partialValues: true, numberMode: 'string' });
+      const result = parser.feed('[1.2');
+
+      expect(result.data).toEqual(['1.2']);
+    });
+
+    it('should write a partial top-level string', () => {
+      const parser = createStreamParser(undefined, { partialValues: true });
+      const result = parser.feed('"Once upon');
+
+      expect(result.data).toBe('Once upon');
+      expect(result.partialFields).toEqual(['']);
+    });
+
+    it('should not validate unfinished values', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: { code: { type: 'string', minLength: 6 } },
+      };
+      const parser = createStreamParser(schema, { partialValues: true });
+
+      let result = parser.feed('{"code": "AB');
+      expect(result.data).toEqual({ code: 'AB' });
+      expect(result.errors).toHaveLength(0);
+
+      result = parser.feed('C"}');
+      expect(result.errors.map(e => e.keyword)).toContain('minLength');
+    });
+
+    it('should leave partial values out of data by default', () => {
+      const parser = createStreamParser();
+      const result = parser.feed('{"name": "Jo');
+
+      expect(result.data).toEqual({});
+      expect(result.partialFields).toEqual([]);
+    });
+  });
+
+  describe('immutable data', () => {
+    it('should copy only the containers on the path to a change', () => {
+      const parser = createStreamParser(undefined, { immutable: true });
+      const first = parser.feed('{"user": {"name": "Ann"}, "posts": [{"id": 1}], "tags": [').data as Record<string, unknown>;
+      const second = parser.feed('"a"').data as Record<string, unknown>;
+
+      // The open array is not part of data yet
+      expect(second).toBe(first);
+
+      const third = parser.feed(']}').data as Record<string, unknown>;
+      expect(third).not.toBe(first);
+      expect(third.user).toBe(first.user);
+      expect(third.posts).toBe(first.posts);
+      expect(first).toEqual({ user: { name: 'Ann' }, posts: [{ id: 1 }] });
+      expect(third).toEqual({ user: { name: 'Ann' }, posts: [{ id: 1 }], tags: ['a'] });
+      expect(parser.getResult()).toBe(third);
+    });
+
+    it('should give nested containers new identities as partial values grow', () => {
+      const parser = createStreamParser(undefined, { immutable: true, partialValues: true });
+      const first = parser.feed('{"done": [{"id": 1}], "doing": [{"id": 2, "text": "wri').data as Record<string, unknown[]>;
+      const second = parser.feed('ting').data as Record<string, unknown[]>;
+
+      expect(second.done).toBe(first.done);
+      expect(second.doing).not.toBe(first.doing);
+      expect(second.doing?.[0]).toEqual({ id: 2, text: 'writing' });
+      expect(first.doing?.[0]).toEqual({ id: 2, text: 'wri' });
+    });
+
+    it('should keep the same root when a feed changes nothing', () => {
+      const parser = createStreamParser(undefined, { immutable: true });
+      const first = parser.feed('{"a": 1, ').data;
+
+      expect(parser.feed('  ').data).toBe(first);
+    });
+
+    it('should match mutable parsing at every chunk split', () => {
+      const input = '{"a": [1, {"b": "text", "c": [true, null]}], "d": {"e": -2.5}, "f": ""}';
+      for (const partialValues of [false, true]) {
+        for (let i = 1; i < input.length; i++) {
+          const mutable = createStreamParser(undefined, { partialValues });
+          const immutable = createStreamParser(undefined, { partialValues, immutable: true });
+          for (const chunk of [input.slice(0, i), input.slice(i)]) {
+            expect(immutable.feed(chunk).data).toEqual(mutable.feed(chunk).data);
+          }
+        }
+      }
+    });
+
+    it('should return the same view from finalize as from getResult', () => {
+      const parser = createStreamParser(undefined, { immutable: true });
+      const { data } = parser.feed('{"a": {"b": 1}}');
+
+      expect(parser.finalize().value).toBe(data);
+      expect(parser.getResult()).toBe(data);
+    });
+
+    it('should pass the view to onComplete', () => {
+      const completed: unknown[] = [];
+      const parser = createStreamParser(undefined, { immutable: true, events: { onComplete: value => completed.push(value) } });
+      const { data } = parser.feed('[{"a": 1}]');
+
+      expect(completed).toHaveLength(1);
+      expect(completed[0]).toBe(data);
+    });
+
+    it('should pass views to onDocument', () => {
+      const framings: [ParserOptions, string][] = [
+        [{ multiDocument: true }, ''],
+        [{ framing: 'json-seq' }, '\u001E'],
+      ];
+      for (const [options, separator] of framings) {
+        const documents: unknown[] = [];
+        const parser = createStreamParser(undefined, {
+          ...options,
+          immutable: true,
+          events: { onDocument: value => documents.push(value) },
+        });
+        const before = parser.feed(`${separator}{"a": {"b": 1}, "c": `).data as Record<string, unknown>;
+        parser.feed(`2}\n${separator}`);
+
+        expect(documents).toEqual([{ a: { b: 1 }, c: 2 }]);
+        expect((documents[0] as Record<string, unknown>).a).toBe(before.a);
+      }
+    });
+  });
+
   describe('schema validation', () => {
     it('should validate against schema', () => {
       const schema = {
@@ -268,6 +457,185 @@ describe('StreamingJSONParser', () => {
       expect(result.data).toEqual({ name: 'John' });
     });
 
+    it('should map Python literals and record each recovery', () => {
+      const parser = createLLMParser();
+      parser.feed('{"done": Tr');
+      const result = parser.feed('ue, "error": None, "items": [False, undefined]}');
+
+      expect(result.complete).toBe(true);
+      expect(result.data).toEqual({ done: true, error: null, items: [false, null] });
+      expect(result.recoveries.map(r => r.kind)).toEqual([
+        'python-literal',
+        'python-literal',
+        'python-literal',
+        'undefined-literal',
+      ]);
+      expect(result.recoveries[0]).toMatchObject({ offset: 9, line: 1, column: 10 });
+    });
+
+    it('should report each structural fix with its path and position', () => {
+      const onRecovery = vi.fn();
+      const parser = createLLMParser(undefined, { events: { onRecovery } });
+      const result = parser.feed("{name: 'Ann', tags: ['x',, 'y',] \"age\": 30, size 2, \"note\": }");
+
+      expect(result.data).toEqual({ name: 'Ann', tags: ['x', 'y'], age: 30, size: 2 });
+      expect(result.recoveries.map(r => [r.kind, r.path.join('.'), r.offset])).toEqual([
+        ['unquoted-key', 'name', 1],
+        ['single-quote', 'name', 7],
+        ['unquoted-key', 'tags', 14],
+        ['single-quote', 'tags.0', 21],
+        ['extra-comma', 'tags.1', 25],
+        ['single-quote', 'tags.1', 27],
+        ['trailing-comma', 'tags', 31],
+        ['missing-comma', '', 33],
+        ['unquoted-key', 'size', 44],
+        ['missing-colon', 'size', 49],
+        ['missing-value', 'note', 60],
+      ]);
+      expect(onRecovery.mock.calls.map(([recovery]) => recovery)).toEqual(result.recoveries);
+    });
+
+    it('should report skipped characters and tokens', () => {
+      const parser = createLLMParser();
+      parser.feed('{"a": 1 @, "b": [1, 2}');
+      const result = parser.end();
+
+      expect(result.recoveries).toEqual([
+        { kind: 'skipped-char', message: 'Skipped unexpected character @', path: [], offset: 8, line: 1, column: 9 },
+        expect.objectContaining({ kind: 'skipped-token', path: ['b', '2'], offset: 21 }),
+      ]);
+    });
+
+    it('should report characters skipped at the end of the input', () => {
+      const parser = createLLMParser();
+      parser.feed('[1] #');
+
+      expect(parser.end().recoveries.map(r => r.kind)).toEqual(['skipped-char']);
+    });
+
+    it('should not report syntax the options allow', () => {
+      const parser = createLLMParser(undefined, { dialect: 'json5' });
+      const result = parser.feed("{name: 'Ann', tags: ['x',],}");
+
+      expect(result.data).toEqual({ name: 'Ann', tags: ['x'] });
+      expect(result.recoveries).toHaveLength(0);
+    });
+
+    it('should parse typographic quotes at every chunk split', () => {
+      const input = '{\u201Cquote\u201D: \u201Che said \u201Chi\u201D to me\u201D\uFF0C \u2018tags\u2019\uFF1A [\u2018a\u2019]}';
+      const expected = { quote: 'he said \u201Chi\u201D to me', tags: ['a'] };
+
+      for (let i = 0; i <= input.length; i++) {
+        const parser = createLLMParser();
+        parser.feed(input.slice(0, i));
+        const result = parser.feed(input.slice(i));
+
+        expect(result.data).toEqual(expected);
+        expect(result.recoveries.map(r => r.kind)).toEqual([
+          'smart-quote', 'smart-quote', 'smart-quote', 'smart-quote', 'fullwidth-punctuation',
+          'smart-quote', 'smart-quote', 'fullwidth-punctuation', 'smart-quote', 'smart-quote',
+        ]);
+      }
+    });
+
+    it('should keep typographic quotes inside strings opened by plain quotes', () => {
+      const cases: [string, unknown][] = [
+        ['{"a": "He said \u201Chi\u201D, then left", "b": 1}', { a: 'He said \u201Chi\u201D, then left', b: 1 }],
+        ["{\"a\": 'It\u2019s fine\u2019, ok', \"b\": 1}", { a: 'It\u2019s fine\u2019, ok', b: 1 }],
+      ];
+
+      for (const [input, expected] of cases) {
+        for (let i = 0; i <= input.length; i++) {
+          const parser = createLLMParser();
+          parser.feed(input.slice(0, i));
+          const result = parser.feed(input.slice(i));
+
+          expect(result.data).toEqual(expected);
+          expect(result.recoveries.map(r => r.kind)).not.toContain('smart-quote');
+        }
+      }
+    });
+
+    it('should keep unescaped quotes inside string values', () => {
+      const input = '{"quote": "he said "hi" to me", "n": 1}';
+
+      for (let i = 0; i <= input.length; i++) {
+        const parser = createLLMParser();
+        parser.feed(input.slice(0, i));
+        const result = parser.feed(input.slice(i));
+
+        expect(result.data).toEqual({ quote: 'he said "hi" to me', n: 1 });
+        expect(result.recoveries.map(r => [r.kind, r.offset])).toEqual([
+          ['unescaped-quote', 19],
+          ['unescaped-quote', 22],
+        ]);
+      }
+    });
+
+    it('should keep raw newlines and tabs inside strings', () => {
+      const parser = createLLMParser();
+      const result = parser.feed('{"text": "line one\nline\ttwo"}');
+
+      expect(result.data).toEqual({ text: 'line one\nline\ttwo' });
+      expect(result.recoveries).toEqual([
+        expect.objectContaining({ kind: 'unescaped-control-character', line: 1, column: 19 }),
+        expect.objectContaining({ kind: 'unescaped-control-character', line: 2, column: 5 }),
+      ]);
+    });
+
+    it('should still close a string followed by another string', () => {
+      const parser = createLLMParser();
+      const result = parser.feed('["a"\n"b"]');
+
+      expect(result.data).toEqual(['a', 'b']);
+      expect(result.recoveries.map(r => r.kind)).toEqual(['missing-comma']);
+    });
+
+    it('should read bare words in value position as strings', () => {
+      const input = '{status: active, priority: very high\n, count: 3, done: true, owner: null, tags: [red, v2]}';
+      const expected = { status: 'active', priority: 'very high', count: 3, done: true, owner: null, tags: ['red', 'v2'] };
+
+      for (let i = 0; i <= input.length; i++) {
+        const parser = createLLMParser();
+        parser.feed(input.slice(0, i));
+        const result = parser.feed(input.slice(i));
+
+        expect(result.data).toEqual(expected);
+        expect(result.recoveries.filter(r => r.kind === 'unquoted-string').map(r => r.message)).toEqual([
+          'Read unquoted value active as a string',
+          'Read unquoted value very high as a string',
+          'Read unquoted value red as a string',
+          'Read unquoted value v2 as a string',
+        ]);
+      }
+    });
+
+    it('should only accept bare words where the schema allows a string', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['active', 'done'] },
+          count: { type: 'integer' },
+        },
+      };
+      const parser = createLLMParser(schema);
+      const result = parser.feed('{status: active, count: many}');
+
+      expect(result.complete).toBe(true);
+      expect(result.data).toEqual({ status: 'active' });
+      expect(result.errors).toEqual([
+        expect.objectContaining({ path: ['count'], keyword: 'syntax' }),
+      ]);
+      expect(result.recoveries.filter(r => r.kind === 'unquoted-string')).toHaveLength(1);
+    });
+
+    it('should still skip prose before a top-level value', () => {
+      const parser = createLLMParser();
+      const result = parser.feed('Sure, here it is: {"a": 1}');
+
+      expect(result.data).toEqual({ a: 1 });
+    });
+
     it('should recover from missing commas', () => {
       const parser = createLLMParser();
       const result = parser.feed('{"name": "John" "age": 30}');
@@ -275,6 +643,245 @@ describe('StreamingJSONParser', () => {
       // In LLM mode, should attempt recovery
       expect(result.data).toBeDefined();
     });
+
+    it('should close strings before values and keys that follow without a comma', () => {
+      const cases: [string, unknown][] = [
+        ['{"age" 30}', { age: 30 }],
+        ['{"ok" true}', { ok: true }],
+        ['{"o" {"x":1}}', { o: { x: 1 } }],
+        ['{"a": "x" 1}', { a: 'x' }],
+        ['["x" 2]', ['x', 2]],
+        ['{"a": "x"\n b: 1}', { a: 'x', b: 1 }],
+        ['{"a": 1\n b: 2}', { a: 1, b: 2 }],
+        ['{"url": http://x.com, "b": 2}', { url: 'http://x.com', b: 2 }],
+      ];
+
+      for (const [input, expected] of cases) {
+        for (let i = 0; i <= input.length; i++) {
+          const parser = createLLMParser();
+          parser.feed(input.slice(0, i));
+          const result = parser.feed(input.slice(i));
+
+          expect(result.complete).toBe(true);
+          expect(result.data).toEqual(expected);
+          expect(result.recoveries.map(r => r.kind)).not.toContain('unescaped-quote');
+        }
+      }
+    });
+  });
+
+  describe('JSON extraction', () => {
+    const input = 'Here is the result:\n```json\n{"name": "John", "tags": ["a"]}\n```\nLet me know if you need more.';
+
+    it('should skip prose and fences around the JSON value', () => {
+      const parser = createLLMParser(undefined, { extractJSON: true });
+      const result = parser.feed(input);
+
+      expect(result.complete).toBe(true);
+      expect(result.data).toEqual({ name: 'John', tags: ['a'] });
+      expect(result.recoveries).toHaveLength(0);
+      expect(result.skippedText).toEqual({
+        before: 'Here is the result:\n```json\n',
+        after: '\n```\nLet me know if you need more.',
+      });
+    });
+
+    it('should extract identically at every chunk split', () => {
+      for (let split = 1; split < input.length; split++) {
+        const parser = createLLMParser(undefined, { extractJSON: true });
+        parser.feed(input.slice(0, split));
+        const result = parser.feed(input.slice(split));
+
+        expect(result.data).toEqual({ name: 'John', tags: ['a'] });
+        expect(result.skippedText.after).toBe('\n```\nLet me know if you need more.');
+      }
+    });
+
+    it('should stop at a closing fence when the value is truncated', () => {
+      const parser = createLLMParser(undefined, { extractJSON: true });
+      const result = parser.feed('```json\n{"done": true, "items": [1, 2\n```\nDone.');
+
+      expect(result.complete).toBe(false);
+      expect(result.data).toEqual({ done: true });
+      expect(result.skippedText.after).toBe('```\nDone.');
+    });
+
+    it('should keep fences inside strings', () => {
+      const parser = createStreamParser(undefined, { extractJSON: true });
+      const result = parser.feed('```json\n{"code": "```js\\nx()\\n```"}\n```');
+
+      expect(result.complete).toBe(true);
+      expect(result.data).toEqual({ code: '```js\nx()\n```' });
+    });
+
+    it('should report locations in the original input', () => {
+      const parser = createStreamParser(undefined, { extractJSON: true });
+
+      expect(() => parser.feed('Result:\n{"a": :}')).toThrow('at line 2, column 7');
+    });
+  });
+
+  describe('JSON5 dialect', () => {
+    const input = `{
+  // Service configuration
+  name: 'api',
+  port: 0x1F90,
+  ratio: .5,
+  retries: +3,
+  limit: Infinity,
+  /* multi-line
+     comment */
+  banner: "hello \\
+world",
+  tags: ['a', 'b',],
+}`;
+    const expected = {
+      name: 'api',
+      port: 8080,
+      ratio: 0.5,
+      retries: 3,
+      limit: Infinity,
+      banner: 'hello world',
+      tags: ['a', 'b'],
+    };
+
+    it('should parse JSON5 documents', () => {
+      const parser = createStreamParser(undefined, { dialect: 'json5' });
+      const result = parser.feed(input);
+
+      expect(result.complete).toBe(true);
+      expect(result.data).toEqual(expected);
+    });
+
+    it('should parse identically at every chunk split', () => {
+      for (let split = 1; split < input.length; split++) {
+        const parser = createStreamParser(undefined, { dialect: 'json5' });
+        parser.feed(input.slice(0, split));
+        const result = parser.feed(input.slice(split));
+
+        expect(result.complete).toBe(true);
+        expect(result.data).toEqual(expected);
+      }
+    });
+
+    it('should reject comments in plain JSON', () => {
+      const parser = createStreamParser();
+
+      expect(() => parser.feed('{/* note */}')).toThrow();
+    });
+  });
+
+  describe('number modes', () => {
+    const input = '{"id": 12345678901234567890, "price": 19.990, "count": 3}';
+
+    it('should produce JS numbers by default', () => {
+      const parser = createStreamParser();
+      const result = parser.feed(input);
+
+      expect(result.data).toEqual({ id: 12345678901234567000, price: 19.99, count: 3 });
+    });
+
+    it('should produce BigInt for integers beyond the safe range', () => {
+      const parser = createStreamParser(undefined, { numberMode: 'bigint' });
+      const result = parser.feed(input);
+
+      expect(result.data).toEqual({ id: 12345678901234567890n, price: 19.99, count: 3 });
+    });
+
+    it('should keep the raw lexeme in string mode', () => {
+      const parser = createStreamParser(undefined, { numberMode: 'string' });
+      const chunks = ['{"id": 1234567', '8901234567890, "price": 19.9', '90, "count": 3}'];
+      let result = parser.feed(chunks[0]!);
+      for (const chunk of chunks.slice(1)) {
+        result = parser.feed(chunk);
+      }
+
+      expect(result.data).toEqual({ id: '12345678901234567890', price: '19.990', count: '3' });
+    });
+
+    it('should pass the raw lexeme to a custom factory', () => {
+      const parser = createStreamParser(undefined, { numberMode: raw => `#${raw}` });
+      const result = parser.feed('[1, -2.5e3]');
+
+      expect(result.data).toEqual(['#1', '#-2.5e3']);
+    });
+
+    it('should validate lossless numbers against numeric keywords', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', minimum: 10000000000000000000 },
+          price: { type: 'number', multipleOf: 0.01 },
+          label: { type: 'string' },
+        },
+      };
+
+      for (const numberMode of ['bigint', 'string'] as const) {
+        const parser = createStreamParser(schema, { numberMode });
+        const result = parser.feed('{"id": 12345678901234567890, "price": 19.990, "label": "7"}');
+
+        expect(result.valid).toBe(true);
+        expect(result.errors).toHaveLength(0);
+      }
+
+      const parser = createStreamParser(schema, { numberMode: 'string' });
+      const result = parser.feed('{"id": 1.5, "price": 0.001, "label": "x"}');
+      const failures = new Set(result.errors.map(e => `${e.path.join('.')}:${e.keyword}`));
+      expect([...failures].sort()).toEqual(['id:type', 'price:multipleOf']);
+    });
+
+    it('should tell number tokens from numeric strings in string mode', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: { id: { type: 'integer' }, name: { type: 'string' } },
+      };
+      const parser = createStreamParser(schema, { numberMode: 'string' });
+      const result = parser.feed('{"id": "123", "name": 42}');
+
+      expect(result.valid).toBe(false);
+      const failures = new Set(result.errors.map(e => `${e.path.join('.')}:${e.keyword}`));
+      expect([...failures].sort()).toEqual(['id:type', 'name:type']);
+    });
+
+    it('should validate factory results on their source text', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: { n: { type: 'integer', maximum: 10 } },
+      };
+      const valid = createStreamParser(schema, { numberMode: raw => ({ raw }) });
+      expect(valid.feed('{"n": 5}').valid).toBe(true);
+
+      const invalid = createStreamParser(schema, { numberMode: raw => ({ raw }) });
+      expect(new Set(invalid.feed('{"n": 11}').errors.map(e => e.keyword))).toEqual(new Set(['maximum']));
+    });
+
+    it('should match lossless numbers against enum and const', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: { a: { enum: [5, 'x'] }, b: { const: 100 } },
+      };
+
+      for (const numberMode of ['bigint', 'string'] as const) {
+        const parser = createStreamParser(schema, { numberMode });
+        expect(parser.feed('{"a": 5.0, "b": 1e2}').errors).toEqual([]);
+      }
+
+      const parser = createStreamParser(schema, { numberMode: 'string' });
+      expect(new Set(parser.feed('{"a": "5"}').errors.map(e => e.keyword))).toEqual(new Set(['enum']));
+    });
+
+    it('should tell lossless numbers from strings in uniqueItems', () => {
+      const schema: JSONSchema = { type: 'array', uniqueItems: true };
+
+      const bigint = createStreamParser(schema, { numberMode: 'bigint' });
+      expect(bigint.feed('[12345678901234567890, "12345678901234567890"]').valid).toBe(true);
+
+      const string = createStreamParser(schema, { numberMode: 'string' });
+      expect(string.feed('[1, "1"]').valid).toBe(true);
+
+      const duplicates = createStreamParser(schema, { numberMode: 'string' });
+      expect(duplicates.feed('[1.0, 1]').errors.map(e => e.keyword)).toEqual(['uniqueItems']);
+    });
   });
 
   describe('edge cases', () => {
@@ -294,6 +901,22 @@ describe('StreamingJSONParser', () => {
       expect((result.data as { text: string }).text).toBe('line1\nline2\ttab');
     });
 
+    it('should decode unicode escapes split across chunks', () => {
+      const parser = createStreamParser();
+      parser.feed('{"text": "caf\\u00');
+      parser.feed('e9 \\ud83d\\u');
+      const result = parser.feed('de00"}');
+
+      expect(result.complete).toBe(true);
+      expect(result.data).toEqual({ text: 'café 😀' });
+    });
+
+    it('should throw on unpaired surrogates when configured to', () => {
+      const parser = createStreamParser(undefined, { unpairedSurrogates: 'error' });
+
+      expect(() => parser.feed('{"text": "\\udc00"}')).toThrow('Unpaired surrogate');
+    });
+
     it('should handle empty strings', () => {
       const parser = createStreamParser();
       const result = parser.feed('{"empty": ""}');
@@ -328,6 +951,628 @@ describe('StreamingJSONParser', () => {
     });
   });
 
+  describe('multiple documents', () => {
+    const collect = (options: Parameters<typeof createStreamParser>[1] = {}, schema?: JSONSchema) => {
+      const documents: Array<{ value: unknown; index: number; errors: ValidationError[] }> = [];
+      const parser = createStreamParser(schema, {
+        ...options,
+        multiDocument: true,
+        events: { onDocument: (value, index, errors) => documents.push({ value, index, errors }) },
+      });
+      return { parser, documents };
+    };
+
+    it('should emit each NDJSON record at every chunk split', () => {
+      const input = '{"id": 1, "tags": ["a"]}\n{"id": 2}\n\n[3]\n"four"\n5\n';
+
+      for (let i = 0; i <= input.length; i++) {
+        const { parser, documents } = collect();
+        parser.feed(input.slice(0, i));
+        parser.feed(input.slice(i));
+        const result = parser.end();
+
+        expect(documents.map(d => d.value)).toEqual([{ id: 1, tags: ['a'] }, { id: 2 }, [3], 'four', 5]);
+        expect(documents.map(d => d.index)).toEqual([0, 1, 2, 3, 4]);
+        expect(result.completedDocuments).toBe(5);
+        expect(result.complete).toBe(true);
+        expect(result.errors).toHaveLength(0);
+      }
+    });
+
+    it('should split values written back to back', () => {
+      const { parser, documents } = collect();
+      parser.feed('{"a": 1}{"a": 2}[true]');
+
+      expect(documents.map(d => d.value)).toEqual([{ a: 1 }, { a: 2 }, [true]]);
+    });
+
+    it('should report the document in progress', () => {
+      const { parser } = collect();
+      const result = parser.feed('{"id": 1}\n{"id": 2, "name": "Jo');
+
+      expect(result.completedDocuments).toBe(1);
+      expect(result.complete).toBe(false);
+      expect(result.data).toEqual({ id: 2 });
+      expect(result.pendingFields).toContain('name');
+    });
+
+    it('should validate each document separately', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: { id: { type: 'number' } },
+        required: ['id'],
+      };
+      const { parser, documents } = collect({}, schema);
+      const result = parser.feed('{"id": 1}\n{"id": "x"}\n{"id": 3}\n');
+
+      expect(documents.map(d => d.errors.map(e => e.keyword))).toEqual([[], ['type', 'type'], []]);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should report a truncated final document', () => {
+      const { parser, documents } = collect();
+      parser.feed('{"a": 1}\n{"a": ');
+      const result = parser.end();
+
+      expect(documents).toHaveLength(1);
+      expect(result.complete).toBe(false);
+      expect(result.errors[0]?.keyword).toBe('truncated');
+    });
+  });
+
+  describe('json-seq framing', () => {
+    const RS = '\u001E';
+    const collect = (options: ParserOptions = {}) => {
+      const documents: unknown[] = [];
+      const recordErrors: RecordError[] = [];
+      const parser = createStreamParser(undefined, {
+        ...options,
+        framing: 'json-seq',
+        events: {
+          onDocument: value => documents.push(value),
+          onRecordError: error => recordErrors.push(error),
+        },
+      });
+      return { parser, documents, recordErrors };
+    };
+
+    it('should emit each record at every chunk split', () => {
+      const input = `${RS}{"id": 1}\n${RS}[true, null]\n${RS}"three"\n${RS}4\n`;
+
+      for (let i = 0; i <= input.length; i++) {
+        const { parser, documents, recordErrors } = collect();
+        parser.feed(input.slice(0, i));
+        parser.feed(input.slice(i));
+        const result = parser.end();
+
+        expect(documents).toEqual([{ id: 1 }, [true, null], 'three', 4]);
+        expect(recordErrors).toHaveLength(0);
+        expect(result.completedDocuments).toBe(4);
+        expect(result.complete).toBe(true);
+      }
+    });
+
+    it('should recover from a truncated record at the next separator', () => {
+      const input = `${RS}{"items": [1, "tw${RS}{"ok": true}\n`;
+
+      for (let i = 0; i <= input.length; i++) {
+        const { parser, documents, recordErrors } = collect();
+        parser.feed(input.slice(0, i));
+        parser.feed(input.slice(i));
+        parser.end();
+
+        expect(documents).toEqual([{ ok: true }]);
+        expect(recordErrors).toEqual([
+          {
+            record: 0,
+            kind: 'truncated',
+            message: 'Record truncated with unclosed object > array at items.1',
+            offset: 18,
+            line: 1,
+            column: 19,
+          },
+        ]);
+      }
+    });
+
+    it('should report a malformed record without aborting the stream', () => {
+      const { parser, documents, recordErrors } = collect();
+      parser.feed(`${RS}{"a": 1}\n${RS}{"a" 2}\n${RS}[1] [2]\n${RS}{"a": 3}\n`);
+      const result = parser.end();
+
+      expect(documents).toEqual([{ a: 1 }, { a: 3 }]);
+      expect(recordErrors.map(e => [e.record, e.kind, e.message])).toEqual([
+        [1, 'malformed', 'Expected :, got NUMBER'],
+        [2, 'malformed', 'Unexpected ARRAY_START after the record value'],
+      ]);
+      expect(result.recordErrors).toEqual(recordErrors);
+    });
+
+    it('should treat a number cut off by a separator as truncated', () => {
+      const { parser, documents, recordErrors } = collect();
+      parser.feed(`${RS}12${RS}34\n${RS}true${RS}nul${RS}`);
+
+      expect(documents).toEqual([34, true]);
+      expect(recordErrors.map(e => [e.record, e.kind])).toEqual([[0, 'truncated'], [3, 'truncated']]);
+    });
+
+    it('should stop unquoted values at a separator', () => {
+      const inputs = [[`${RS}{"a": hello${RS}{"b":1}\n`], [`${RS}["hi", wor`, `${RS}[2]\n`]];
+
+      for (const chunks of inputs) {
+        const { parser, documents, recordErrors } = collect({ llmMode: true });
+        for (const chunk of chunks) {
+          parser.feed(chunk);
+        }
+        parser.end();
+
+        expect(documents).toEqual([chunks.length === 1 ? { b: 1 } : [2]]);
+        expect(recordErrors.map(e => e.kind)).toEqual(['truncated']);
+      }
+    });
+
+    it('should stop JSON5 comments at a separator', () => {
+      for (const comment of ['/* cut', '// cut']) {
+        const { parser, documents, recordErrors } = collect({ dialect: 'json5' });
+        parser.feed(`${RS}[1, ${comment}${RS}[2]\n`);
+        parser.end();
+
+        expect(documents).toEqual([[2]]);
+        expect(recordErrors.map(e => e.kind)).toEqual(['truncated']);
+      }
+    });
+
+    it('should treat a value left pending at the end of the stream as truncated', () => {
+      const { parser, documents, recordErrors } = collect();
+      parser.feed(`${RS}1\n${RS}2`);
+      const result = parser.end();
+
+      expect(documents).toEqual([1]);
+      expect(recordErrors.map(e => e.kind)).toEqual(['truncated']);
+      expect(result.complete).toBe(true);
+    });
+
+    it('should ignore empty records', () => {
+      const { parser, documents, recordErrors } = collect();
+      parser.feed(`${RS}${RS}\n${RS}{}\n${RS}`);
+      parser.end();
+
+      expect(documents).toEqual([{}]);
+      expect(recordErrors).toHaveLength(0);
+    });
+  });
+
+  describe('structural events', () => {
+    function record(chunks: string[], options: ParserOptions = {}): string[] {
+      const log: string[] = [];
+      const at = (path: string[], location: SourceLocation) => `${path.join('.')} @${location.offset}`;
+      const parser = createStreamParser(undefined, {
+        ...options,
+        events: {
+          onObjectStart: (path, location) => log.push(`objectStart ${at(path, location)}`),
+          onObjectEnd: (_value, path, location) => log.push(`objectEnd ${at(path, location)}`),
+          onArrayStart: (path, location) => log.push(`arrayStart ${at(path, location)}`),
+          onArrayEnd: (value, path, location) => log.push(`arrayEnd ${JSON.stringify(value)} ${at(path, location)}`),
+          onKey: (key, path, location) => log.push(`key ${key} ${at(path, location)}`),
+          onValueStart: (path, location) => log.push(`valueStart ${at(path, location)}`),
+          onValue: (value, path, location) => log.push(`value ${JSON.stringify(value)} ${at(path, location)}`),
+        },
+      });
+      for (const chunk of chunks) {
+        parser.feed(chunk);
+      }
+      parser.end();
+      return log;
+    }
+
+    it('should report every container, key and value in document order', () => {
+      expect(record(['{"a": [1, {"b": null}]}'])).toEqual([
+        'valueStart  @0',
+        'objectStart  @0',
+        'key a a @1',
+        'valueStart a @6',
+        'arrayStart a @6',
+        'valueStart a.0 @7',
+        'value 1 a.0 @7',
+        'valueStart a.1 @10',
+        'objectStart a.1 @10',
+        'key b a.1.b @11',
+        'valueStart a.1.b @16',
+        'value null a.1.b @16',
+        'objectEnd a.1 @20',
+        'value {"b":null} a.1 @20',
+        'arrayEnd [1,{"b":null}] a @21',
+        'value [1,{"b":null}] a @21',
+        'objectEnd  @22',
+        'value {"a":[1,{"b":null}]}  @22',
+      ]);
+    });
+
+    it('should start a value once when it spans chunks', () => {
+      expect(record(['{"text": "He', 'll', 'o", "n": 1', '2}'])).toEqual([
+        'valueStart  @0',
+        'objectStart  @0',
+        'key text text @1',
+        'valueStart text @9',
+        'value "Hello" text @9',
+        'key n n @18',
+        'valueStart n @23',
+        'value 12 n @23',
+        'objectEnd  @25',
+        'value {"text":"Hello","n":12}  @25',
+      ]);
+    });
+
+    it('should report top-level primitives', () => {
+      expect(record(['4', '2'])).toEqual(['valueStart  @0', 'value 42  @0']);
+    });
+
+    it('should report the line and column of each event', () => {
+      const locations: SourceLocation[] = [];
+      const parser = createStreamParser(undefined, {
+        events: { onKey: (_key, _path, location) => locations.push(location) },
+      });
+      parser.feed('{\n  "a": 1,\n  "b": 2\n}');
+
+      expect(locations).toEqual([
+        { offset: 4, line: 2, column: 3 },
+        { offset: 14, line: 3, column: 3 },
+      ]);
+    });
+  });
+
+  describe('string deltas', () => {
+    type Delta = [string[], string, string, boolean, boolean];
+
+    function deltas(chunks: string[]): Delta[] {
+      const log: Delta[] = [];
+      const parser = createStreamParser(undefined, {
+        events: { onStringDelta: (...args) => log.push(args) },
+      });
+      for (const chunk of chunks) {
+        parser.feed(chunk);
+      }
+      return log;
+    }
+
+    it('should report only the characters each chunk adds', () => {
+      expect(deltas(['{"answer": "The q', 'uick', ' fox"}'])).toEqual([
+        [[], 'answer', 'answer', true, true],
+        [['answer'], 'The q', 'The q', false, false],
+        [['answer'], 'uick', 'The quick', false, false],
+        [['answer'], ' fox', 'The quick fox', true, false],
+      ]);
+    });
+
+    it('should decode escapes split across chunks', () => {
+      const chunks = ['["a\\', 'n\\u00', 'e9\\ud83d', '\\ude00"]'];
+      expect(deltas(chunks)).toEqual([
+        [['0'], 'a', 'a', false, false],
+        [['0'], '\n', 'a\n', false, false],
+        [['0'], '\u00e9', 'a\n\u00e9', false, false],
+        [['0'], '😀', 'a\n\u00e9😀', true, false],
+      ]);
+    });
+
+    it('should stream keys with the path of their object', () => {
+      expect(deltas(['{"items": [{"ti', 'tle": "x"}]}'])).toEqual([
+        [[], 'items', 'items', true, true],
+        [['items', '0'], 'ti', 'ti', false, true],
+        [['items', '0'], 'tle', 'title', true, true],
+        [['items', '0', 'title'], 'x', 'x', true, false],
+      ]);
+    });
+
+    it('should not report numbers, literals or numbers kept as strings', () => {
+      const log: Delta[] = [];
+      const parser = createStreamParser(undefined, {
+        numberMode: 'string',
+        events: { onStringDelta: (...args) => log.push(args) },
+      });
+      parser.feed('[1');
+      parser.feed('2, tr');
+      parser.feed('ue, null]');
+
+      expect(log).toEqual([]);
+    });
+
+    it('should mark a string closed by finalize as final', () => {
+      const log: Delta[] = [];
+      const parser = createStreamParser(undefined, {
+        events: { onStringDelta: (...args) => log.push(args) },
+      });
+      parser.feed('["Hel');
+      parser.finalize({ repair: true });
+
+      expect(log).toEqual([
+        [['0'], 'Hel', 'Hel', false, false],
+        [['0'], '', 'Hel', true, false],
+      ]);
+    });
+  });
+
+  describe('array items', () => {
+    it('should pass completed items of selected arrays to onArrayItem', () => {
+      const items: [unknown, number, string[]][] = [];
+      const parser = createStreamParser(undefined, {
+        arrayItems: { paths: ['$.logs', '$..tags'] },
+        events: { onArrayItem: (item, index, path) => items.push([item, index, path]) },
+      });
+
+      const result = parser.feed('{"logs": [{"level": "info", "tags": ["a"]}, 2], "other": [3]}');
+
+      expect(items).toEqual([
+        ['a', 0, ['logs', '0', 'tags']],
+        [{ level: 'info', tags: ['a'] }, 0, ['logs']],
+        [2, 1, ['logs']],
+      ]);
+      expect(result.data).toEqual({ logs: [{ level: 'info', tags: ['a'] }, 2], other: [3] });
+    });
+
+    it('should drop items when retain is false', () => {
+      const items: unknown[] = [];
+      const parser = createStreamParser(undefined, {
+        arrayItems: { paths: ['$.logs'], retain: false },
+        jsonPatch: true,
+        events: { onArrayItem: item => items.push(item) },
+      });
+
+      const first = parser.feed('{"logs": [{"id": 1}, {"id": 2}');
+      expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(first.data).toEqual({});
+
+      const result = parser.feed('], "count": 2}');
+      expect(result.data).toEqual({ logs: [], count: 2 });
+      expect(result.completedFields).toEqual(['logs', 'count', '']);
+      expect([...first.patch, ...result.patch].map(op => op.path)).toEqual(['', '/logs', '/count']);
+    });
+
+    it('should not report partial values inside dropped items', () => {
+      const parser = createStreamParser(undefined, {
+        arrayItems: { paths: ['$.rows'], retain: false },
+        partialValues: true,
+      });
+
+      let result = parser.feed('{"rows": [{"q": "a"}, {"q": "b');
+      expect(result.partialFields).toEqual([]);
+
+      result = parser.feed('c"}], "title": "Re');
+      expect(result.partialFields).toEqual(['title']);
+    });
+
+    it('should validate dropped items and the running count', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: {
+          logs: {
+            type: 'array',
+            minItems: 4,
+            uniqueItems: true,
+            contains: { const: 'error' },
+            items: { type: 'string' },
+          },
+        },
+      };
+      const validate = (input: string) => {
+        const parser = createStreamParser(schema, { arrayItems: { paths: ['$.logs'], retain: false } });
+        return parser.feed(input).errors.map(error => `${error.keyword} ${error.path.join('.')}`);
+      };
+
+      expect(validate('{"logs": ["info", "error", "warn", "debug"]}')).toEqual([]);
+      expect(validate('{"logs": ["info", 5, "info"]}')).toEqual([
+        'type logs.1',
+        'minItems logs',
+        'uniqueItems logs',
+        'contains logs',
+      ]);
+    });
+  });
+
+  describe('strict mode', () => {
+    const strictError = (input: string): ParseError => {
+      const parser = createStreamParser(undefined, { strict: true });
+      try {
+        parser.feed(input);
+        parser.end();
+      } catch (error) {
+        return error as ParseError;
+      }
+      throw new Error(`Expected ${JSON.stringify(input)} to be rejected`);
+    };
+
+    it('should point at the offending character of a malformed number', () => {
+      const error = strictError('[1.2.3]');
+      expect(error.reason).toBe('Invalid number 1.2.3: unexpected "."');
+      expect(error.column).toBe(5);
+
+      expect(strictError('[01]').reason).toBe('Invalid number 01: leading zeros are not allowed');
+      expect(strictError('[1e]').reason).toBe('Invalid number 1e: expected a digit in the exponent');
+    });
+
+    it('should reject raw control characters and unknown escapes in strings', () => {
+      const error = strictError('{"a": "x\ty"}');
+      expect(error.reason).toBe('Unescaped control character U+0009 in string');
+      expect(error.column).toBe(9);
+
+      expect(strictError('["\\a"]').reason).toBe('Invalid escape: \\a');
+    });
+
+    it('should reject trailing commas and input after the value', () => {
+      expect(strictError('{"a": 1,}').reason).toBe('Trailing comma before }');
+      expect(strictError('[1,]').reason).toBe('Trailing comma before ]');
+      expect(strictError('{"a": 1} {').reason).toBe('Unexpected OBJECT_START after the top-level value');
+    });
+
+    it('should accept the same inputs as the default mode otherwise', () => {
+      const parser = createStreamParser(undefined, { strict: true });
+      parser.feed('{"a": [1, -2.5e3, "x\\n"], "b": null}');
+
+      expect(parser.end().data).toEqual({ a: [1, -2500, 'x\n'], b: null });
+    });
+
+    it('should refuse relaxed options', () => {
+      expect(() => createStreamParser(undefined, { strict: true, dialect: 'json5' })).toThrow();
+      expect(() => createLLMParser(undefined, { strict: true })).toThrow();
+    });
+  });
+
+  describe('end of input', () => {
+    it('should complete a top-level number', () => {
+      const parser = createStreamParser();
+      parser.feed('4');
+      expect(parser.feed('2').complete).toBe(false);
+
+      const result = parser.end();
+      expect(result.complete).toBe(true);
+      expect(result.data).toBe(42);
+      expect(parser.getResult()).toBe(42);
+    });
+
+    it('should flush a JSON5 number before a trailing line comment', () => {
+      const parser = createStreamParser(undefined, { dialect: 'json5' });
+      parser.feed('0x1F // answer');
+
+      expect(parser.end().data).toBe(31);
+    });
+
+    it('should leave an already complete result unchanged', () => {
+      const parser = createStreamParser();
+      parser.feed('{"a": [1, 2]}');
+      const result = parser.end();
+
+      expect(result.complete).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(result.data).toEqual({ a: [1, 2] });
+    });
+
+    it('should report truncation with the open containers', () => {
+      const onError = vi.fn();
+      const parser = createStreamParser(undefined, { events: { onError } });
+      parser.feed('{"items": [{"title": "Hel');
+      const result = parser.end();
+
+      expect(result.complete).toBe(false);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]?.keyword).toBe('truncated');
+      expect(result.errors[0]?.message).toBe(
+        'Unexpected end of input in unterminated string with unclosed object > array > object at items.0.title'
+      );
+
+      const error = onError.mock.calls[0]?.[0] as TruncationError;
+      expect(error).toBeInstanceOf(TruncationError);
+      expect(error.openContainers).toEqual(['object', 'array', 'object']);
+      expect(error.path).toEqual(['items', '0', 'title']);
+      expect(error.offset).toBe(25);
+    });
+
+    it('should report a truncated keyword and empty input', () => {
+      const keyword = createStreamParser();
+      keyword.feed('[tru');
+      expect(keyword.end().errors[0]?.message).toBe(
+        'Unexpected end of input in incomplete literal "tru" with unclosed array at 0'
+      );
+
+      const empty = createStreamParser();
+      empty.feed('  ');
+      expect(empty.end().errors[0]?.message).toBe('Unexpected end of input: no JSON value');
+    });
+  });
+
+  describe('finalize', () => {
+    it('should return a complete value without repairs', () => {
+      const parser = createStreamParser();
+      parser.feed('{"a": [1, 2]}');
+
+      expect(parser.finalize({ repair: true })).toEqual({ value: { a: [1, 2] }, valid: true, errors: [], repairs: [], patch: [] });
+    });
+
+    it('should throw a TruncationError for an incomplete value unless repairing', () => {
+      const parser = createStreamParser();
+      parser.feed('{"a": [1');
+
+      expect(() => parser.finalize()).toThrow(TruncationError);
+    });
+
+    it('should close an open string and the containers around it', () => {
+      const parser = createStreamParser();
+      parser.feed('{"total": 2, "items": [{"name": "Wid');
+      const { value, repairs } = parser.finalize({ repair: true });
+
+      expect(value).toEqual({ total: 2, items: [{ name: 'Wid' }] });
+      expect(repairs).toEqual([
+        { kind: 'closed-string', path: ['items', '0', 'name'], message: 'Closed unterminated string at items.0.name' },
+        { kind: 'closed-object', path: ['items', '0'], message: 'Closed unterminated object at items.0' },
+        { kind: 'closed-array', path: ['items'], message: 'Closed unterminated array at items' },
+        { kind: 'closed-object', path: [], message: 'Closed unterminated object' },
+      ]);
+      expect(parser.isComplete()).toBe(true);
+    });
+
+    it('should finish a cut-off number or literal', () => {
+      const number = createStreamParser();
+      number.feed('{"price": 12.');
+      expect(number.finalize({ repair: true }).value).toEqual({ price: 12 });
+
+      const literal = createStreamParser();
+      literal.feed('[1, tr');
+      const { value, repairs } = literal.finalize({ repair: true });
+      expect(value).toEqual([1, true]);
+      expect(repairs[0]).toEqual({ kind: 'completed-literal', path: ['1'], message: 'Completed tr as true at 1' });
+    });
+
+    it('should drop a dangling key by default', () => {
+      for (const input of ['{"a": 1, "b"', '{"a": 1, "b":', '{"a": 1, "b": -']) {
+        const parser = createStreamParser();
+        parser.feed(input);
+        const { value, repairs } = parser.finalize({ repair: true });
+
+        expect(value).toEqual({ a: 1 });
+        expect(repairs.map(r => r.kind)).toContain('dropped-key');
+      }
+    });
+
+    it('should keep a dangling key as null when asked', () => {
+      const parser = createStreamParser();
+      parser.feed('{"a": 1, "b":');
+      const { value, repairs } = parser.finalize({ repair: true, danglingKeys: 'null' });
+
+      expect(value).toEqual({ a: 1, b: null });
+      expect(repairs[0]?.kind).toBe('null-value');
+    });
+
+    it('should drop an unterminated key', () => {
+      const parser = createStreamParser();
+      parser.feed('{"a": 1, "na');
+
+      expect(parser.finalize({ repair: true, danglingKeys: 'null' }).value).toEqual({ a: 1 });
+    });
+
+    it('should validate the repaired value', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['active', 'inactive'] },
+          count: { type: 'number' },
+        },
+        required: ['status', 'count'],
+      };
+      const parser = createStreamParser(schema);
+      parser.feed('{"status": "act');
+      const result = parser.finalize({ repair: true });
+
+      expect(result.value).toEqual({ status: 'act' });
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.keyword)).toEqual(expect.arrayContaining(['enum', 'required']));
+    });
+
+    it('should throw when there is no value to repair', () => {
+      const parser = createStreamParser();
+      parser.feed('  ');
+
+      expect(() => parser.finalize({ repair: true })).toThrow('no JSON value');
+    });
+  });
+
   describe('error handling', () => {
     it('should throw on invalid JSON in strict mode', () => {
       const parser = createStreamParser();
@@ -337,6 +1582,26 @@ describe('StreamingJSONParser', () => {
       }).toThrow();
     });
 
+    it('should report the error location with an excerpt', () => {
+      const parser = createStreamParser();
+      parser.feed('{\n  "a": 1,\n');
+
+      let error: unknown;
+      try {
+        parser.feed('  "b": : 2\n}');
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ParseError);
+      const parseError = error as ParseError;
+      expect(parseError.line).toBe(3);
+      expect(parseError.column).toBe(8);
+      expect(parseError.offset).toBe(19);
+      expect(parseError.excerpt).toBe('  "b": : 2\n       ^');
+      expect(parseError.message).toContain('at line 3, column 8');
+    });
+
     it('should not throw in LLM mode', () => {
       const parser = createLLMParser();
 
@@ -352,6 +1617,29 @@ describe('StreamingJSONParser', () => {
 
       expect(result.bytesProcessed).toBe(input.length);
     });
+
+    it('should track UTF-8 bytes for multi-byte input', () => {
+      const parser = createStreamParser();
+      const input = '{"name": "Zoë 👋"}';
+      const result = parser.feed(input);
+
+      expect(result.bytesProcessed).toBe(new TextEncoder().encode(input).length);
+      expect(result.charactersProcessed).toBe(input.length);
+    });
+
+    it('should accept Uint8Array chunks split inside a code point', () => {
+      const parser = createStreamParser();
+      const bytes = new TextEncoder().encode('{"greeting": "你好"}');
+
+      let result;
+      for (let i = 0; i < bytes.length; i++) {
+        result = parser.feed(bytes.subarray(i, i + 1));
+      }
+
+      expect(result?.complete).toBe(true);
+      expect(result?.data).toEqual({ greeting: '你好' });
+      expect(result?.bytesProcessed).toBe(bytes.length);
+    });
   });
 
   describe('getResult', () => {
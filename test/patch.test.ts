@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { createStreamParser, createLLMParser } from '../src/parser.js';
+import { applyPatch } from '../src/patch.js';
+import { JSONPatchOperation } from '../src/types.js';
+
+const inputs = [
+  '{"title": "Review", "tags": ["a", "b"], "meta": {"score": 4.5, "ok": true, "note": null}}',
+  '[{"id": 1, "items": [[1, 2], []]}, {"id": 2, "text": "x\\ny"}, -0.25e2]',
+  '{"a/b": {"m~n": "slash and tilde"}, "": [""], "dup": 1, "dup": 2}',
+  '"top-level string"',
+];
+
+function chunkings(input: string): string[][] {
+  const result = [Array.from(input)];
+  for (let i = 1; i < input.length; i++) {
+    result.push([input.slice(0, i), input.slice(i)]);
+  }
+  return result;
+}
+
+describe('JSON Patch deltas', () => {
+  for (const partialValues of [false, true]) {
+    describe(partialValues ? 'with partialValues' : 'with complete values only', () => {
+      it('should rebuild data after every feed at every chunk split', () => {
+        for (const input of inputs) {
+          for (const chunks of chunkings(input)) {
+            const parser = createStreamParser(undefined, { jsonPatch: true, partialValues });
+            let document: unknown;
+
+            for (const chunk of chunks) {
+              const result = parser.feed(chunk);
+              document = applyPatch(document, result.patch);
+              expect(document, JSON.stringify(chunks)).toEqual(result.data);
+            }
+            document = applyPatch(document, parser.end().patch);
+            expect(document).toEqual(JSON.parse(input));
+          }
+        }
+      });
+    });
+  }
+
+  it('should add new keys and appended items', () => {
+    const parser = createStreamParser(undefined, { jsonPatch: true });
+
+    expect(parser.feed('{"a": 1, "list": [1').patch).toEqual([
+      { op: 'add', path: '', value: {} },
+      { op: 'add', path: '/a', value: 1 },
+    ]);
+    expect(parser.feed(', 2], "b/c~": "x"}').patch).toEqual([
+      { op: 'add', path: '/list', value: [1, 2] },
+      { op: 'add', path: '/b~1c~0', value: 'x' },
+    ]);
+    expect(parser.end().patch).toEqual([]);
+  });
+
+  it('should replace a growing partial string', () => {
+    const parser = createStreamParser(undefined, { jsonPatch: true, partialValues: true });
+    parser.feed('{"items": [{"text": "He');
+
+    expect(parser.feed('llo').patch).toEqual([{ op: 'replace', path: '/items/0/text', value: 'Hello' }]);
+    expect(parser.feed('"}]}').patch).toEqual([]);
+  });
+
+  it('should copy values so later changes do not leak into earlier operations', () => {
+    const parser = createStreamParser(undefined, { jsonPatch: true, partialValues: true });
+    const { patch } = parser.feed('{"a": {"b": 1}}');
+
+    expect(patch[1]).toEqual({ op: 'add', path: '/a', value: {} });
+  });
+
+  it('should describe recovered LLM output', () => {
+    const parser = createLLMParser(undefined, { jsonPatch: true });
+    const result = parser.feed("{name: 'Ann', tags: ['x',,],}");
+
+    expect(applyPatch(undefined, result.patch)).toEqual({ name: 'Ann', tags: ['x'] });
+  });
+
+  it('should include repairs in the patch returned by finalize', () => {
+    for (const partialValues of [false, true]) {
+      const parser = createStreamParser(undefined, { jsonPatch: true, partialValues });
+      let document = applyPatch(undefined, parser.feed('{"done": 1, "items": [{"text": "Hel').patch);
+      document = applyPatch(document, parser.feed('lo", "note":').patch);
+      const { value, patch } = parser.finalize({ repair: true, danglingKeys: 'null' });
+
+      expect(applyPatch(document, patch)).toEqual(value);
+      expect(value).toEqual({ done: 1, items: [{ text: 'Hello', note: null }] });
+    }
+  });
+
+  it('should be empty unless enabled', () => {
+    const parser = createStreamParser();
+    expect(parser.feed('{"a": 1}').patch).toEqual([]);
+  });
+});
+
+describe('applyPatch', () => {
+  it('should insert into arrays and append with -', () => {
+    const operations: JSONPatchOperation[] = [
+      { op: 'add', path: '/list/0', value: 'first' },
+      { op: 'add', path: '/list/-', value: 'last' },
+      { op: 'replace', path: '/list/1', value: 'middle' },
+    ];
+
+    expect(applyPatch({ list: ['x'] }, operations)).toEqual({ list: ['first', 'middle', 'last'] });
+  });
+
+  it('should copy values so operations can be applied twice', () => {
+    const operations: JSONPatchOperation[] = [
+      { op: 'add', path: '', value: { items: [] } },
+      { op: 'add', path: '/items/0', value: 1 },
+    ];
+
+    expect(applyPatch(undefined, operations)).toEqual({ items: [1] });
+    expect(applyPatch(undefined, operations)).toEqual({ items: [1] });
+  });
+
+  it('should reject paths that do not exist', () => {
+    expect(() => applyPatch({}, [{ op: 'add', path: '/a/b', value: 1 }])).toThrow('does not exist');
+    expect(() => applyPatch([], [{ op: 'add', path: '/5', value: 1 }])).toThrow('Invalid array index');
+  });
+});
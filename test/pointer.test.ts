@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createStreamParser, createLLMParser } from '../src/parser.js';
+import { TruncationError } from '../src/errors.js';
+import { toPointer, parsePointer } from '../src/pointer.js';
+import { JSONSchema } from '../src/types.js';
+
+describe('JSON Pointer helpers', () => {
+  it('should escape ~ and / in segments', () => {
+    expect(toPointer([])).toBe('');
+    expect(toPointer(['a.b', '0'])).toBe('/a.b/0');
+    expect(toPointer(['a/b', 'm~n', ''])).toBe('/a~1b/m~0n/');
+  });
+
+  it('should round-trip segments', () => {
+    for (const path of [[], [''], ['a/b~1'], ['~01', 'x', '3']]) {
+      expect(parsePointer(toPointer(path))).toEqual(path);
+    }
+  });
+
+  it('should reject pointers without a leading slash', () => {
+    expect(() => parsePointer('a/b')).toThrow('Invalid JSON Pointer');
+  });
+
+  it('should reject invalid escapes', () => {
+    expect(() => parsePointer('/a~2b')).toThrow('Invalid JSON Pointer: /a~2b');
+    expect(() => parsePointer('/a~')).toThrow('Invalid JSON Pointer');
+  });
+});
+
+describe('pathFormat: pointer', () => {
+  const schema: JSONSchema = {
+    type: 'object',
+    properties: {
+      'a.b': { type: 'array', items: { type: 'string' } },
+    },
+  };
+
+  it('should report fields as pointers that keep dotted keys apart from nesting', () => {
+    const parser = createStreamParser(undefined, { pathFormat: 'pointer', partialValues: true });
+    const result = parser.feed('{"a.b": 1, "a": {"b": [2]}, "c/d": "x');
+
+    expect(result.completedFields).toEqual(['/a.b', '/a/b/0', '/a/b', '/a']);
+    expect(result.pendingFields).toEqual(['', '/c~1d']);
+    expect(result.partialFields).toEqual(['/c~1d']);
+  });
+
+  it('should report error, recovery and repair paths as pointers', () => {
+    const parser = createStreamParser(schema, { pathFormat: 'pointer' });
+    expect(parser.feed('{"a.b": [1]}').errors[0]?.path).toBe('/a.b/0');
+
+    const llm = createLLMParser(undefined, { pathFormat: 'pointer' });
+    expect(llm.feed("{'x/y': 1}").recoveries.map(recovery => recovery.path)).toEqual(['/x~1y']);
+
+    const truncated = createStreamParser(undefined, { pathFormat: 'pointer' });
+    truncated.feed('{"a": ["b');
+    expect(truncated.finalize({ repair: true }).repairs.map(repair => repair.path)).toEqual(['/a/0', '/a', '']);
+  });
+
+  it('should name pointers in truncation and repair messages', () => {
+    const onError = vi.fn();
+    const parser = createStreamParser(undefined, { pathFormat: 'pointer', events: { onError } });
+    parser.feed('{"a.b": [{"c": "x');
+    const result = parser.end();
+
+    expect(result.errors[0]?.message).toBe(
+      'Unexpected end of input in unterminated string with unclosed object > array > object at /a.b/0/c'
+    );
+    const error = onError.mock.calls[0]?.[0] as TruncationError<string>;
+    expect(error).toBeInstanceOf(TruncationError);
+    expect(error.path).toBe('/a.b/0/c');
+
+    const repaired = createStreamParser(undefined, { pathFormat: 'pointer' });
+    repaired.feed('{"a.b": ["x');
+    expect(repaired.finalize({ repair: true }).repairs[0]?.message).toBe('Closed unterminated string at /a.b/0');
+  });
+
+  it('should name pointers in truncated json-seq records', () => {
+    const onRecordError = vi.fn();
+    const parser = createStreamParser(undefined, { pathFormat: 'pointer', framing: 'json-seq', events: { onRecordError } });
+    parser.feed('\u001E{"a.b": [1\n\u001E');
+
+    expect(onRecordError.mock.calls[0]?.[0].message).toBe('Record truncated with unclosed object > array at /a.b/1');
+  });
+
+  it('should pass pointers to events and subscriptions', () => {
+    const calls: unknown[] = [];
+    const parser = createStreamParser(schema, {
+      pathFormat: 'pointer',
+      events: {
+        onKey: (key, path) => calls.push(['key', key, path]),
+        onValue: (_value, path) => calls.push(['value', path]),
+        onCompleteField: (field, _value, path) => calls.push(['field', field, path]),
+      },
+    });
+    parser.on('$.*', (_value, path) => calls.push(['on', path]));
+
+    parser.feed('{"a.b": ["x"]}');
+
+    expect(calls).toEqual([
+      ['key', 'a.b', '/a.b'],
+      ['value', '/a.b/0'],
+      ['value', '/a.b'],
+      ['on', '/a.b'],
+      ['field', 'a.b', ''],
+      ['value', ''],
+    ]);
+  });
+
+  it('should keep segment paths by default', () => {
+    const parser = createStreamParser(schema);
+    const result = parser.feed('{"a.b": [1]}');
+
+    expect(result.completedFields).toEqual(['a.b.0', 'a.b', '']);
+    expect(result.errors[0]?.path).toEqual(['a.b', '0']);
+  });
+});
@@ -98,6 +98,23 @@ describe('StreamingTokenizer', () => {
       expect(tokens[0]?.value).toBe('hello world');
     });
 
+    it('should flush a pending number at end of input', () => {
+      expect(tokenizer.feed('-12.5')).toHaveLength(0);
+
+      const tokens = tokenizer.end();
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0]?.type).toBe(TokenType.Number);
+      expect(tokens[0]?.value).toBe(-12.5);
+    });
+
+    it('should keep an unterminated string pending at end of input', () => {
+      tokenizer.setExpectingKey(false);
+      tokenizer.feed('"abc');
+
+      expect(tokenizer.end()).toHaveLength(0);
+      expect(tokenizer.getPartialToken()?.value).toBe('abc');
+    });
+
     it('should handle partial numbers', () => {
       // Standalone numbers stay as partial until we see a terminating character
       let tokens = tokenizer.feed('123');
@@ -118,6 +135,34 @@ describe('StreamingTokenizer', () => {
       expect(tokens[0]?.value).toBe(123.456);
     });
 
+    it('should resume strings and numbers without losing raw text or location', () => {
+      const tokens = [
+        ...tokenizer.feed('[ "ab'),
+        ...tokenizer.feed('c\\'),
+        ...tokenizer.feed('n d", -1'),
+        ...tokenizer.feed('2.5'),
+        ...tokenizer.feed('e3]'),
+      ];
+
+      const string = tokens.find(t => t.type === TokenType.String);
+      expect(string).toMatchObject({ value: 'abc\n d', raw: '"abc\\n d"', position: 2, column: 3 });
+
+      const number = tokens.find(t => t.type === TokenType.Number);
+      expect(number).toMatchObject({ value: -12.5e3, raw: '-12.5e3', position: 13 });
+    });
+
+    it('should report the decoded prefix of a partial string', () => {
+      tokenizer.setExpectingKey(false);
+      tokenizer.feed('"one\\t');
+      expect(tokenizer.getPartialToken()?.value).toBe('one\t');
+
+      tokenizer.feed('two');
+      const partial = tokenizer.getPartialToken();
+      expect(partial?.value).toBe('one\ttwo');
+      expect(partial?.raw).toBe('"one\\ttwo');
+      expect(partial?.position).toBe(0);
+    });
+
     it('should handle chunked JSON', () => {
       let allTokens: ReturnType<typeof tokenizer.feed> = [];
 
@@ -134,6 +179,55 @@ describe('StreamingTokenizer', () => {
     });
   });
 
+  describe('source locations', () => {
+    it('should report absolute offsets, lines and columns across chunks', () => {
+      let tokens = tokenizer.feed('{"a":\n 1');
+      expect(tokens.map(t => [t.position, t.line, t.column])).toEqual([
+        [0, 1, 1],
+        [1, 1, 2],
+        [4, 1, 5],
+      ]);
+
+      tokens = tokenizer.feed('2,\n  true');
+      expect(tokens.map(t => [t.type, t.position, t.line, t.column])).toEqual([
+        [TokenType.Number, 7, 2, 2],
+        [TokenType.Comma, 9, 2, 4],
+        [TokenType.Boolean, 13, 3, 3],
+      ]);
+    });
+
+    it('should render a caret-annotated excerpt', () => {
+      tokenizer.feed('{"a": 1,\n "b": ?}');
+      expect(tokenizer.getSourceExcerpt(15)).toBe(' "b": ?}\n      ^');
+    });
+  });
+
+  describe('byte input', () => {
+    it('should decode UTF-8 code points split across chunks', () => {
+      const bytes = new TextEncoder().encode('"café 😀"');
+      tokenizer.setExpectingKey(false);
+
+      let tokens = tokenizer.feed(bytes.slice(0, 5)); // Ends inside é
+      expect(tokens).toHaveLength(0);
+      expect(tokenizer.getPartialToken()?.value).toBe('caf');
+
+      tokens = tokenizer.feed(bytes.slice(5, 9)); // Ends inside 😀
+      expect(tokenizer.getPartialToken()?.value).toBe('café ');
+
+      tokens = tokenizer.feed(bytes.slice(9).buffer);
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0]?.value).toBe('café 😀');
+    });
+
+    it('should count bytes and characters separately', () => {
+      tokenizer.feed('"é');
+      tokenizer.feed(new TextEncoder().encode('😀"'));
+
+      expect(tokenizer.getBytesProcessed()).toBe(8);
+      expect(tokenizer.getCharactersProcessed()).toBe(5);
+    });
+  });
+
   describe('escaped strings', () => {
     it('should handle escaped quotes', () => {
       tokenizer.setExpectingKey(false);
@@ -155,6 +249,65 @@ describe('StreamingTokenizer', () => {
       expect(tokens).toHaveLength(1);
       expect(tokens[0]?.value).toBe('col1\tcol2');
     });
+
+    it('should decode unicode escapes', () => {
+      tokenizer.setExpectingKey(false);
+      const tokens = tokenizer.feed('"caf\\u00e9"');
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0]?.value).toBe('café');
+    });
+
+    it('should decode surrogate pairs', () => {
+      tokenizer.setExpectingKey(false);
+      const tokens = tokenizer.feed('"\\ud83d\\ude00!"');
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0]?.value).toBe('😀!');
+    });
+
+    it('should decode surrogate pairs split at every chunk boundary', () => {
+      const input = '"a\\ud83d\\ude00b"';
+      for (let split = 1; split < input.length; split++) {
+        tokenizer.reset();
+        tokenizer.setExpectingKey(false);
+        const tokens = [...tokenizer.feed(input.slice(0, split)), ...tokenizer.feed(input.slice(split))];
+        expect(tokens).toHaveLength(1);
+        expect(tokens[0]?.value).toBe('a😀b');
+      }
+    });
+
+    it('should hold back incomplete escapes in partial strings', () => {
+      tokenizer.setExpectingKey(false);
+      tokenizer.feed('"caf\\u00');
+      expect(tokenizer.getPartialToken()?.value).toBe('caf');
+
+      tokenizer.feed('e9 \\ud83d');
+      expect(tokenizer.getPartialToken()?.value).toBe('café ');
+
+      tokenizer.feed('\\ude00');
+      expect(tokenizer.getPartialToken()?.value).toBe('café 😀');
+    });
+
+    it('should replace unpaired surrogates by default', () => {
+      tokenizer.setExpectingKey(false);
+      const tokens = tokenizer.feed('"\\ud83dx\\ude00"');
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0]?.value).toBe('\uFFFDx\uFFFD');
+    });
+
+    it('should report unpaired surrogates when configured to', () => {
+      const strictTokenizer = new StreamingTokenizer({ unpairedSurrogates: 'error' });
+      strictTokenizer.setExpectingKey(false);
+      const tokens = strictTokenizer.feed('"\\ud83d"');
+      expect(tokens[0]?.type).toBe(TokenType.Error);
+      expect(tokens[0]?.value).toContain('Unpaired surrogate');
+    });
+
+    it('should report invalid unicode escapes', () => {
+      tokenizer.setExpectingKey(false);
+      const tokens = tokenizer.feed('"\\u12G4"');
+      expect(tokens[0]?.type).toBe(TokenType.Error);
+      expect(tokens[0]?.value).toContain('Invalid unicode escape');
+    });
   });
 
   describe('LLM mode', () => {
@@ -167,8 +320,19 @@ describe('StreamingTokenizer', () => {
     it('should allow unquoted keys', () => {
       const llmTokenizer = new StreamingTokenizer({ llmMode: true });
       llmTokenizer.setExpectingKey(true);
-      const tokens = llmTokenizer.feed('name');
-      expect(tokens).toHaveLength(1);
+      const tokens = llmTokenizer.feed('name:');
+      expect(tokens).toHaveLength(2);
+      expect(tokens[0]?.type).toBe(TokenType.Key);
+      expect(tokens[0]?.value).toBe('name');
+    });
+
+    it('should wait for unquoted keys split across chunks', () => {
+      const llmTokenizer = new StreamingTokenizer({ llmMode: true });
+      llmTokenizer.setExpectingKey(true);
+      expect(llmTokenizer.feed('na')).toHaveLength(0);
+      expect(llmTokenizer.getPartialToken()?.type).toBe(TokenType.PartialKey);
+
+      const tokens = llmTokenizer.feed('me:');
       expect(tokens[0]?.type).toBe(TokenType.Key);
       expect(tokens[0]?.value).toBe('name');
     });
@@ -176,13 +340,128 @@ describe('StreamingTokenizer', () => {
     it('should allow single quotes', () => {
       const llmTokenizer = new StreamingTokenizer({ llmMode: true });
       llmTokenizer.setExpectingKey(false);
-      const tokens = llmTokenizer.feed("'hello'");
+      // A closing quote is only confirmed by what follows it
+      const tokens = [...llmTokenizer.feed("'hello'"), ...llmTokenizer.end()];
       expect(tokens).toHaveLength(1);
       expect(tokens[0]?.type).toBe(TokenType.String);
       expect(tokens[0]?.value).toBe('hello');
     });
   });
 
+  describe('JSON5 dialect', () => {
+    let json5: StreamingTokenizer;
+
+    beforeEach(() => {
+      json5 = new StreamingTokenizer({ dialect: 'json5' });
+    });
+
+    it('should skip line and block comments', () => {
+      const tokens = json5.feed('[1, // one\n /* two */ 2]');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.ArrayStart,
+        TokenType.Number,
+        TokenType.Comma,
+        TokenType.Number,
+        TokenType.ArrayEnd,
+      ]);
+    });
+
+    it('should parse extended number literals', () => {
+      const tokens = json5.feed('[0x1F, -0xff, .5, 5., +1, Infinity, -Infinity, NaN]');
+      const values = tokens.filter(t => t.type === TokenType.Number).map(t => t.value);
+      expect(values).toEqual([31, -255, 0.5, 5, 1, Infinity, -Infinity, NaN]);
+    });
+
+    it('should decode line continuations and JSON5 escapes', () => {
+      json5.setExpectingKey(false);
+      const tokens = json5.feed('"one \\\ntwo \\x41\\v"');
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0]?.value).toBe('one two A\v');
+    });
+
+    it('should wait for comments split across chunks', () => {
+      expect(json5.feed('[1 /')).toHaveLength(2);
+      expect(json5.feed('* note *')).toHaveLength(0); // Comment still open
+      const tokens = json5.feed('/ ]');
+      expect(tokens.map(t => t.type)).toEqual([TokenType.ArrayEnd]);
+    });
+
+    it('should reject malformed numbers', () => {
+      const tokens = json5.feed('[0xZZ]');
+      expect(tokens.some(t => t.type === TokenType.Error)).toBe(true);
+    });
+
+    it('should not enable JSON5 syntax by default', () => {
+      const tokens = tokenizer.feed('[0x1F]');
+      expect(tokens.some(t => t.type === TokenType.Error)).toBe(true);
+    });
+  });
+
+  describe('LLM literals', () => {
+    let llmTokenizer: StreamingTokenizer;
+
+    beforeEach(() => {
+      llmTokenizer = new StreamingTokenizer({ llmMode: true });
+      llmTokenizer.setExpectingKey(false);
+    });
+
+    it('should map Python and JavaScript literals to JSON values', () => {
+      const tokens = llmTokenizer.feed('[True, False, None, undefined]');
+      const values = tokens.filter(t => t.type === TokenType.Boolean || t.type === TokenType.Null);
+      expect(values.map(t => t.value)).toEqual([true, false, null, null]);
+      expect(values.map(t => t.recoveries?.[0]?.kind)).toEqual([
+        'python-literal',
+        'python-literal',
+        'python-literal',
+        'undefined-literal',
+      ]);
+    });
+
+    it('should read typographic quotes and fullwidth punctuation as delimiters', () => {
+      llmTokenizer.setExpectingKey(true);
+      const tokens = llmTokenizer.feed('{\u201Cname\u201D\uFF1A \u2018it\u2019s\u2019\uFF0C "a": 1}');
+
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.ObjectStart,
+        TokenType.Key,
+        TokenType.Colon,
+        TokenType.String,
+        TokenType.Comma,
+        TokenType.Key,
+        TokenType.Colon,
+        TokenType.Number,
+        TokenType.ObjectEnd,
+      ]);
+      expect(tokens[1]?.value).toBe('name');
+      expect(tokens[3]?.value).toBe('it\u2019s');
+      expect(tokens[1]?.recoveries?.map(r => r.offset)).toEqual([1, 6]);
+      expect(tokens[2]?.recoveries?.[0]).toMatchObject({ kind: 'fullwidth-punctuation', offset: 7 });
+    });
+
+    it('should wait for the next character before closing on a typographic quote', () => {
+      expect(llmTokenizer.feed('[\u201Chi\u201D')).toHaveLength(1);
+      expect(llmTokenizer.getPartialToken()?.value).toBe('hi');
+
+      const tokens = llmTokenizer.feed(']');
+      expect(tokens.map(t => t.value)).toEqual(['hi', null]);
+    });
+
+    it('should hold back partial literals', () => {
+      expect(llmTokenizer.feed('Tru')).toHaveLength(0);
+      expect(llmTokenizer.getPartialToken()?.value).toBe('Tru');
+
+      const tokens = llmTokenizer.feed('e');
+      expect(tokens[0]?.type).toBe(TokenType.Boolean);
+      expect(tokens[0]?.value).toBe(true);
+    });
+
+    it('should not map literals outside LLM mode', () => {
+      tokenizer.setExpectingKey(false);
+      const tokens = tokenizer.feed('True');
+      expect(tokens[0]?.type).toBe(TokenType.Error);
+    });
+  });
+
   describe('whitespace handling', () => {
     it('should skip whitespace between tokens', () => {
       const tokens = tokenizer.feed('  {  "a"  :  1  }  ');
@@ -168,6 +168,81 @@ describe('SchemaValidator', () => {
       expect(validator.validate(25)).toHaveLength(0);
       expect(validator.validate(7).length).toBeGreaterThan(0);
     });
+
+    it('should validate decimal multipleOf without float error', () => {
+      const validator = new SchemaValidator({ type: 'number', multipleOf: 0.01 });
+
+      expect(validator.validate(19.99)).toHaveLength(0);
+      expect(validator.validate(0.3)).toHaveLength(0);
+      expect(validator.validate(0.305).length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('lossless numbers', () => {
+    it('should validate BigInt values as integers', () => {
+      const schema: JSONSchema = { type: 'integer', minimum: 0, multipleOf: 2 };
+      const validator = new SchemaValidator(schema, { numberMode: 'bigint' });
+
+      expect(validator.validate(12345678901234567890n)).toHaveLength(0);
+      expect(validator.validate(12345678901234567891n)[0]?.keyword).toBe('multipleOf');
+      expect(validator.validate(-12345678901234567890n)[0]?.keyword).toBe('minimum');
+    });
+
+    it('should compare raw number text exactly', () => {
+      const schema: JSONSchema = { type: 'number', maximum: 9007199254740992, multipleOf: 0.01 };
+      const validator = new SchemaValidator(schema, { numberMode: 'string' });
+
+      expect(validator.validate('0.10', [], '0.10')).toHaveLength(0);
+      expect(validator.validate('0.105', [], '0.105')[0]?.keyword).toBe('multipleOf');
+      expect(validator.validate('9007199254740992', [], '9007199254740992')).toHaveLength(0);
+      expect(validator.validate('9007199254740993', [], '9007199254740993')[0]?.keyword).toBe('maximum');
+    });
+
+    it('should check integer type on raw number text', () => {
+      const validator = new SchemaValidator({ type: 'integer' }, { numberMode: 'string' });
+
+      expect(validator.validate('12345678901234567890', [], '12345678901234567890')).toHaveLength(0);
+      expect(validator.validate('1.0e2', [], '1.0e2')).toHaveLength(0);
+      expect(validator.validate('1.5', [], '1.5')[0]?.keyword).toBe('type');
+      expect(validator.validate('abc', [], 'abc')[0]?.keyword).toBe('type');
+    });
+
+    it('should keep validating string fields as strings', () => {
+      const validator = new SchemaValidator({ type: 'string', maxLength: 2 }, { numberMode: 'string' });
+
+      expect(validator.validate('42')).toHaveLength(0);
+      expect(validator.validate('123')[0]?.keyword).toBe('maxLength');
+    });
+
+    it('should only treat marked values as numbers', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: { id: { type: 'integer' }, tags: { type: 'array', items: { type: 'string' } } },
+      };
+      const validator = new SchemaValidator(schema, { numberMode: 'string' });
+
+      expect(validator.validate('7', ['id'])[0]?.keyword).toBe('type');
+      expect(validator.validate('7', ['id'], '7')).toHaveLength(0);
+
+      const value = { id: '7', tags: ['8'] };
+      validator.markNumber(value, 'id', '7');
+      validator.markNumber(value.tags, '0', '8');
+      expect(validator.validate(value).map(e => e.path.join('.'))).toEqual(['tags.0']);
+    });
+
+    it('should validate values from a number factory', () => {
+      class Decimal {
+        constructor(private text: string) {}
+        toString(): string {
+          return this.text;
+        }
+      }
+      const schema: JSONSchema = { type: 'number', exclusiveMinimum: 0 };
+      const validator = new SchemaValidator(schema, { numberMode: raw => new Decimal(raw) });
+
+      expect(validator.validate(new Decimal('0.000000000000000000001'), [], '0.000000000000000000001')).toHaveLength(0);
+      expect(validator.validate(new Decimal('0'), [], '0')[0]?.keyword).toBe('exclusiveMinimum');
+    });
   });
 
   describe('array validation', () => {